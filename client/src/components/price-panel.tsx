@@ -1,12 +1,15 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Bitcoin, RefreshCw, Loader2, TrendingUp, Clock, Database } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { signPriceRequestEvent, signWithNip07, haveNip07 } from "@/lib/nostr";
+import { signPriceRequestEvent, signWithNip07, haveNip07, signAuthEvent, authEventTemplate, priceRequestTemplate } from "@/lib/nostr";
 import type { AccountMode } from "./account-panel";
-import type { PriceData } from "@/hooks/use-websocket";
+import type { AuthSigner, PriceData } from "@/hooks/use-websocket";
+import type { RelayInfo } from "@shared/schema";
 
 interface PricePanelProps {
   mode: AccountMode;
@@ -15,12 +18,17 @@ interface PricePanelProps {
   priceData: PriceData | null;
   onSendEvent: (event: any) => void;
   onSubscribe: (requestId: string) => void;
+  onAuthenticate: (sign: AuthSigner) => Promise<void>;
   onLog: (type: "info" | "event" | "error" | "success", message: string) => void;
 }
 
-export function PricePanel({ mode, secretKey, pubkeyHex, priceData, onSendEvent, onSubscribe, onLog }: PricePanelProps) {
+export function PricePanel({ mode, secretKey, pubkeyHex, priceData, onSendEvent, onSubscribe, onAuthenticate, onLog }: PricePanelProps) {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [pair, setPair] = useState("BTC-USD");
+  const { data: relayInfo } = useQuery<RelayInfo>({ queryKey: ["/api/relay-info"] });
+  const listed = [...(relayInfo?.supported_pairs ?? []), ...(relayInfo?.synthetic_pairs ?? [])].sort();
+  const pairs = listed.length ? listed : ["BTC-USD"];
 
   const handleRequestPrice = async () => {
     if (!pubkeyHex) {
@@ -41,31 +49,18 @@ export function PricePanel({ mode, secretKey, pubkeyHex, priceData, onSendEvent,
         if (!haveNip07()) {
           throw new Error("NIP-07 wallet not available");
         }
-        const created_at = Math.floor(Date.now() / 1000);
-        const eventTemplate = {
-          kind: 38000,
-          pubkey: pubkeyHex,
-          created_at,
-          tags: [
-            ["t", "price-request"],
-            ["pair", "BTC-USD"],
-          ],
-          content: JSON.stringify({
-            pair: "BTC-USD",
-            method: "trimmed_mean",
-            sources: ["coinbase", "kraken", "coingecko", "bitstamp"],
-            maxAgeMs: 20000,
-          }),
-        };
+        const eventTemplate = { ...priceRequestTemplate(pair), pubkey: pubkeyHex };
         signedEvent = await signWithNip07(eventTemplate);
+        await onAuthenticate((challenge, relayUrl) => signWithNip07({ ...authEventTemplate(challenge, relayUrl), pubkey: pubkeyHex }));
       } else {
         if (!secretKey) {
           throw new Error("Local key locked. Unlock or create an account.");
         }
-        signedEvent = signPriceRequestEvent(secretKey, pubkeyHex);
+        signedEvent = signPriceRequestEvent(secretKey, pubkeyHex, pair);
+        await onAuthenticate(async (challenge, relayUrl) => signAuthEvent(secretKey, challenge, relayUrl));
       }
 
-      onLog("info", `Sending price request ${signedEvent.id.slice(0, 8)}...`);
+      onLog("info", `Sending ${pair} price request ${signedEvent.id.slice(0, 8)}...`);
       onSubscribe(signedEvent.id);
       onSendEvent(signedEvent);
 
@@ -86,12 +81,12 @@ export function PricePanel({ mode, secretKey, pubkeyHex, priceData, onSendEvent,
     }
   };
 
-  const formatPrice = (value: number) => {
+  const formatPrice = (value: number, quote: string) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: quote,
       minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      maximumFractionDigits: value < 1 ? 8 : 2,
     }).format(value);
   };
 
@@ -104,14 +99,35 @@ export function PricePanel({ mode, secretKey, pubkeyHex, priceData, onSendEvent,
               <Bitcoin className="h-5 w-5 text-primary" />
             </div>
             <div>
-              <CardTitle className="text-base font-semibold">BTC Price</CardTitle>
-              <CardDescription>Aggregated from multiple sources</CardDescription>
+              <CardTitle className="text-base font-semibold">{pair.split("-")[0]} Price</CardTitle>
+              <CardDescription className="flex items-center gap-2">
+                Aggregated from multiple sources
+                {relayInfo?.price_source_mode && relayInfo.price_source_mode !== "live" && (
+                  <Badge variant="outline" className="text-xs" data-testid="badge-price-source-mode">
+                    {relayInfo.price_source_mode}
+                  </Badge>
+                )}
+              </CardDescription>
             </div>
           </div>
-          <Button onClick={handleRequestPrice} disabled={isLoading || !pubkeyHex} className="gap-2" data-testid="button-get-price">
-            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-            Get Price
-          </Button>
+          <div className="flex items-center gap-2">
+            <Select value={pair} onValueChange={setPair}>
+              <SelectTrigger className="w-[120px] font-mono text-xs" data-testid="select-pair">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pairs.map((p) => (
+                  <SelectItem key={p} value={p} className="font-mono text-xs">
+                    {p}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRequestPrice} disabled={isLoading || !pubkeyHex} className="gap-2" data-testid="button-get-price">
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              Get Price
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -119,10 +135,15 @@ export function PricePanel({ mode, secretKey, pubkeyHex, priceData, onSendEvent,
           <div className="space-y-4">
             <div className="flex items-baseline gap-2">
               <span className="text-4xl font-mono font-bold tracking-tight" data-testid="text-price-value">
-                {formatPrice(priceData.value)}
+                {formatPrice(priceData.value, priceData.pair.split("-")[1])}
               </span>
+              {priceData.conf !== null && (
+                <span className="text-sm font-mono text-muted-foreground" data-testid="text-price-conf">
+                  ± {formatPrice(priceData.conf, priceData.pair.split("-")[1])}
+                </span>
+              )}
               <Badge variant="secondary" className="font-mono text-xs">
-                BTC/USD
+                {priceData.pair.replace("-", "/")}
               </Badge>
             </div>
             <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
@@ -145,7 +166,7 @@ export function PricePanel({ mode, secretKey, pubkeyHex, priceData, onSendEvent,
           <div className="py-8 text-center text-muted-foreground" data-testid="text-no-price">
             <Bitcoin className="h-12 w-12 mx-auto mb-3 opacity-20" />
             <p>No price data yet</p>
-            <p className="text-sm mt-1">Click "Get Price" to request the current BTC price</p>
+            <p className="text-sm mt-1">Click "Get Price" to request the current {pair} price</p>
           </div>
         )}
       </CardContent>
@@ -4,19 +4,25 @@ import type { ConsoleLogEntry } from "@shared/schema";
 export type ConnectionStatus = "connecting" | "connected" | "disconnected";
 
 export interface PriceData {
+  pair: string;
   value: number;
   method: string;
   sourcesCount: number;
+  /** Half-width of the confidence band, when the relay reports dispersion. */
+  conf: number | null;
   timestamp: Date;
   cached: boolean;
 }
 
+export type AuthSigner = (challenge: string, relayUrl: string) => Promise<any>;
+
 export interface UseWebSocketResult {
   status: ConnectionStatus;
   logs: ConsoleLogEntry[];
   priceData: PriceData | null;
   sendEvent: (event: any) => void;
   subscribe: (requestId: string) => void;
+  authenticate: (sign: AuthSigner) => Promise<void>;
   clearLogs: () => void;
   addLog: (type: ConsoleLogEntry["type"], message: string, eventKind?: number, eventId?: string) => void;
 }
@@ -27,6 +33,18 @@ export function useWebSocket(): UseWebSocketResult {
   const [priceData, setPriceData] = useState<PriceData | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const challengeRef = useRef<string | null>(null);
+  // Open reply subscriptions by request id; each is closed once its request is answered or rejected.
+  const replySubsRef = useRef<Map<string, string>>(new Map());
+
+  const closeReplySub = useCallback((requestId: string) => {
+    const subId = replySubsRef.current.get(requestId);
+    if (!subId) return;
+    replySubsRef.current.delete(requestId);
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify(["CLOSE", subId]));
+    }
+  }, []);
 
   const addLog = useCallback((type: ConsoleLogEntry["type"], message: string, eventKind?: number, eventId?: string) => {
     const entry: ConsoleLogEntry = {
@@ -50,6 +68,8 @@ export function useWebSocket(): UseWebSocketResult {
     try {
       const ws = new WebSocket(wsUrl);
       wsRef.current = ws;
+      challengeRef.current = null;
+      replySubsRef.current.clear();
       setStatus("connecting");
 
       ws.addEventListener("open", () => {
@@ -76,17 +96,21 @@ export function useWebSocket(): UseWebSocketResult {
           const msg = JSON.parse(ev.data);
           if (Array.isArray(msg)) {
             if (msg[0] === "EVENT") {
-              const evt = msg[1];
+              const evt = msg.length >= 3 ? msg[2] : msg[1];
               if (evt && (evt.kind === 38001 || evt.kind === 38002)) {
+                const requestId = evt.tags?.find((t: string[]) => t[0] === "e")?.[1];
+                if (requestId) closeReplySub(requestId);
                 const content = evt.content;
                 try {
                   const parsed = JSON.parse(content);
                   if (evt.kind === 38001) {
-                    addLog("event", `Price: $${parsed.value?.toFixed(2)} (${parsed.method}, ${parsed.sources_used?.length || 0} sources)`, evt.kind, evt.id?.slice(0, 8));
+                    addLog("event", `Price: ${parsed.pair ?? ""} ${parsed.value?.toFixed(2)} (${parsed.method}, ${parsed.sources_used?.length || 0} sources)`, evt.kind, evt.id?.slice(0, 8));
                     setPriceData({
+                      pair: parsed.pair || "BTC-USD",
                       value: parsed.value,
                       method: parsed.method || "unknown",
                       sourcesCount: parsed.sources_used?.length || 0,
+                      conf: typeof parsed.dispersion?.conf === "number" ? parsed.dispersion.conf : null,
                       timestamp: new Date(),
                       cached: parsed.cache?.hit === true,
                     });
@@ -103,7 +127,15 @@ export function useWebSocket(): UseWebSocketResult {
                 addLog("success", `Request accepted: ${id?.slice(0, 8)}...`);
               } else {
                 addLog("error", `Request rejected: ${message}`);
+                closeReplySub(id);
               }
+            } else if (msg[0] === "AUTH") {
+              challengeRef.current = msg[1];
+            } else if (msg[0] === "CLOSED") {
+              replySubsRef.current.forEach((subId, requestId) => {
+                if (subId === msg[1]) replySubsRef.current.delete(requestId);
+              });
+              addLog("error", `Subscription closed: ${msg[2] ?? "no reason given"}`);
             } else if (msg[0] === "NOTICE") {
               addLog("info", `Notice: ${msg[1]}`);
             } else if (msg[0] === "EOSE") {
@@ -118,7 +150,7 @@ export function useWebSocket(): UseWebSocketResult {
       addLog("error", `Failed to connect: ${error}`);
       setStatus("disconnected");
     }
-  }, [addLog]);
+  }, [addLog, closeReplySub]);
 
   useEffect(() => {
     connect();
@@ -143,9 +175,18 @@ export function useWebSocket(): UseWebSocketResult {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       const subId = "sub_" + Math.random().toString(16).slice(2);
       const filter = { kinds: [38001, 38002], "#e": [requestId], limit: 10 };
+      replySubsRef.current.set(requestId, subId);
       wsRef.current.send(JSON.stringify(["REQ", subId, filter]));
     }
   }, []);
 
-  return { status, logs, priceData, sendEvent, subscribe, clearLogs, addLog };
+  const authenticate = useCallback(async (sign: AuthSigner) => {
+    const ws = wsRef.current;
+    const challenge = challengeRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !challenge) return;
+    const signed = await sign(challenge, ws.url);
+    ws.send(JSON.stringify(["AUTH", signed]));
+  }, []);
+
+  return { status, logs, priceData, sendEvent, subscribe, authenticate, clearLogs, addLog };
 }
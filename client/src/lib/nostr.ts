@@ -1,6 +1,6 @@
 import { getPublicKey, generateSecretKey, finalizeEvent, type Event } from "nostr-tools";
 import { nip19 } from "nostr-tools";
-import type { LocalAccount } from "@shared/schema";
+import { KIND_PRICE_REQ, LABEL_PAIR, type LocalAccount } from "@shared/schema";
 
 const LS_KEY = "btcRelayDemo.account.v1";
 
@@ -78,24 +78,50 @@ export function createGuestAccount(): { pubkeyHex: string; secretKey: Uint8Array
   return { pubkeyHex: pk, secretKey: sk };
 }
 
-export function signPriceRequestEvent(secretKey: Uint8Array, pubkey: string): Event {
-  const created_at = Math.floor(Date.now() / 1000);
-  const eventTemplate = {
-    kind: 38000,
-    created_at,
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Kind 38000 is addressable, so each request carries a fresh `d` tag; otherwise a new
+ * request would replace the previous one on any NIP-01 relay.
+ */
+export function priceRequestTemplate(pair = "BTC-USD") {
+  return {
+    kind: KIND_PRICE_REQ,
+    created_at: Math.floor(Date.now() / 1000),
     tags: [
+      ["d", randomHex(16)],
       ["t", "price-request"],
-      ["pair", "BTC-USD"],
+      ["L", LABEL_PAIR],
+      ["l", pair, LABEL_PAIR],
     ],
     content: JSON.stringify({
-      pair: "BTC-USD",
+      pair,
       method: "trimmed_mean",
-      sources: ["coinbase", "kraken", "coingecko", "bitstamp"],
       maxAgeMs: 20000,
     }),
   };
+}
+
+export function signPriceRequestEvent(secretKey: Uint8Array, pubkey: string, pair?: string): Event {
+  return finalizeEvent(priceRequestTemplate(pair), secretKey);
+}
+
+export function authEventTemplate(challenge: string, relayUrl: string) {
+  return {
+    kind: 22242,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      ["relay", relayUrl],
+      ["challenge", challenge],
+    ],
+    content: "",
+  };
+}
 
-  return finalizeEvent(eventTemplate, secretKey);
+export function signAuthEvent(secretKey: Uint8Array, challenge: string, relayUrl: string): Event {
+  return finalizeEvent(authEventTemplate(challenge, relayUrl), secretKey);
 }
 
 export function haveNip07(): boolean {
@@ -13,7 +13,7 @@ export default function Dashboard() {
   const [mode, setMode] = useState<AccountMode>("local");
   const [secretKey, setSecretKey] = useState<Uint8Array | null>(null);
   const [pubkeyHex, setPubkeyHex] = useState<string | null>(null);
-  const { status, logs, priceData, sendEvent, subscribe, clearLogs, addLog } = useWebSocket();
+  const { status, logs, priceData, sendEvent, subscribe, authenticate, clearLogs, addLog } = useWebSocket();
 
   const wsUrl = (window as any).RELAY_WS_URL || (location.protocol === "https:" ? "wss://" : "ws://") + location.host + "/ws";
 
@@ -63,7 +63,7 @@ export default function Dashboard() {
 
           <div className="grid gap-6 lg:grid-cols-2">
             <div className="space-y-6">
-              <PricePanel mode={mode} secretKey={secretKey} pubkeyHex={pubkeyHex} priceData={priceData} onSendEvent={sendEvent} onSubscribe={subscribe} onLog={addLog} />
+              <PricePanel mode={mode} secretKey={secretKey} pubkeyHex={pubkeyHex} priceData={priceData} onSendEvent={sendEvent} onSubscribe={subscribe} onAuthenticate={authenticate} onLog={addLog} />
               <AccountPanel mode={mode} setMode={setMode} secretKey={secretKey} setSecretKey={setSecretKey} pubkeyHex={pubkeyHex} setPubkeyHex={setPubkeyHex} />
             </div>
             <div>
@@ -0,0 +1,54 @@
+import { writeFileSync } from "fs";
+import { coinbase } from "../server/sources/coinbase";
+import { kraken } from "../server/sources/kraken";
+import { coingecko } from "../server/sources/coingecko";
+import { bitstamp } from "../server/sources/bitstamp";
+import { frankfurter } from "../server/sources/frankfurter";
+import type { FixtureSample, PriceFixture } from "../server/sources/replay";
+
+// Records live quotes from every adapter into a fixture for PRICE_SOURCE_MODE=replay.
+//   npm run prices:record -- fixture.json [rounds=10] [intervalMs=5000] [pairs=BTC-USD,...]
+
+const [out, roundsArg, intervalArg, pairsArg] = process.argv.slice(2);
+if (!out) {
+  console.error("usage: npm run prices:record -- <output.json> [rounds] [intervalMs] [pairs]");
+  process.exit(1);
+}
+
+const rounds = Number(roundsArg ?? 10);
+const intervalMs = Number(intervalArg ?? 5000);
+const onlyPairs = pairsArg ? pairsArg.split(",").map((p) => p.trim().toUpperCase()) : null;
+const timeoutMs = Number(process.env.FETCH_TIMEOUT_MS ?? 2500);
+
+async function main() {
+  const recordedAt = Date.now();
+  const samples: FixtureSample[] = [];
+
+  for (let round = 0; round < rounds; round++) {
+    if (round > 0) await new Promise((r) => setTimeout(r, intervalMs));
+    const jobs = [coinbase, kraken, coingecko, bitstamp, frankfurter].flatMap((source) =>
+      source.pairs
+        .filter((pair) => !onlyPairs || onlyPairs.includes(pair))
+        .map(async (pair) => {
+          const started = Date.now();
+          const base = { source: source.id, pair, offsetMs: started - recordedAt };
+          try {
+            const { price, volume, exchangeTs } = source.parse(await source.fetch(pair, timeoutMs), pair);
+            const received = Date.now();
+            const exchangeLagMs = exchangeTs !== undefined ? received - exchangeTs : undefined;
+            samples.push({ ...base, value: price, volume, exchangeLagMs, latencyMs: received - started });
+          } catch (e: any) {
+            samples.push({ ...base, error: e?.message ?? String(e), latencyMs: Date.now() - started });
+          }
+        }),
+    );
+    await Promise.all(jobs);
+    console.log(`round ${round + 1}/${rounds}: ${samples.length} samples`);
+  }
+
+  const fixture: PriceFixture = { recordedAt, samples };
+  writeFileSync(out, JSON.stringify(fixture, null, 2));
+  console.log(`wrote ${out}`);
+}
+
+main();
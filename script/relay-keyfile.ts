@@ -0,0 +1,24 @@
+import { existsSync, writeFileSync } from "fs";
+import { generateSecretKey, getPublicKey } from "nostr-tools";
+import { encryptSecretKey, parseSecretKey } from "../server/relay-keys";
+
+// Writes an encrypted relay keyfile for RELAY_KEYFILE / RELAY_PREVIOUS_KEYFILE.
+// Encrypts RELAY_PRIVKEY_HEX when set, otherwise generates a fresh key.
+//   RELAY_KEYFILE_PASSPHRASE=... npm run relay:keyfile -- relay-key.json
+
+const out = process.argv[2];
+const passphrase = process.env.RELAY_KEYFILE_PASSPHRASE;
+
+if (!out || !passphrase) {
+  console.error("usage: RELAY_KEYFILE_PASSPHRASE=... npm run relay:keyfile -- <output.json>");
+  process.exit(1);
+}
+if (existsSync(out)) {
+  console.error(`${out} already exists; refusing to overwrite a relay key`);
+  process.exit(1);
+}
+
+const secretKey = process.env.RELAY_PRIVKEY_HEX ? parseSecretKey(process.env.RELAY_PRIVKEY_HEX) : generateSecretKey();
+writeFileSync(out, JSON.stringify(encryptSecretKey(secretKey, passphrase), null, 2), { mode: 0o600 });
+console.log(`wrote ${out}`);
+console.log(`pubkey ${getPublicKey(secretKey)}`);
@@ -0,0 +1,115 @@
+import { WebSocketServer, WebSocket } from "ws";
+import { loadScenario, MockMarket } from "../server/sources/mock";
+
+// Local stand-in for the exchange ticker streams, so PRICE_STREAMS can run offline.
+// Serves Coinbase- and Kraken-shaped feeds at /coinbase and /kraken, priced from the mock market.
+//   npm run prices:stream-standin -- [port=5101] [tickMs=1000] [dropEveryMs=0]
+// then start the relay with PRICE_STREAMS=coinbase,kraken PRICE_STREAM_URL=ws://127.0.0.1:5101
+// A nonzero dropEveryMs cuts every connection on that interval to exercise reconnect and resync.
+
+const [portArg, tickArg, dropArg] = process.argv.slice(2);
+const port = Number(portArg ?? 5101);
+const tickMs = Number(tickArg ?? 1000);
+const dropEveryMs = Number(dropArg ?? 0);
+
+const scenario = loadScenario(process.env.MOCK_SCENARIO);
+const market = new MockMarket(scenario);
+
+type Feed = "coinbase" | "kraken";
+
+interface Client {
+  ws: WebSocket;
+  feed: Feed;
+  pairs: string[];
+}
+
+const clients = new Set<Client>();
+
+function ticker(feed: Feed, pair: string): { price: number; bid: number; ask: number; volume: number } {
+  const behavior = scenario.sources[feed] ?? {};
+  const spread = behavior.spread ?? 0.0004;
+  const noise = (behavior.noise ?? 0.0002) * (2 * market.rand() - 1);
+  const price = market.price(pair, feed) * (1 + (behavior.skew ?? 0) + noise);
+  return { price, bid: price * (1 - spread / 2), ask: price * (1 + spread / 2), volume: behavior.volume ?? 1000 };
+}
+
+/** Messages for one tick of `pairs`, in the feed's wire format. */
+function tickMessages(client: Client, type: "snapshot" | "update"): unknown[] {
+  const pairs = client.pairs.filter((p) => market.quotes(p));
+  if (client.feed === "kraken") {
+    const data = pairs.map((pair) => {
+      const t = ticker("kraken", pair);
+      return { symbol: pair.replace("-", "/"), last: t.price, bid: t.bid, ask: t.ask, volume: t.volume };
+    });
+    return data.length ? [{ channel: "ticker", type, data }] : [];
+  }
+  return pairs.map((pair) => {
+    const t = ticker("coinbase", pair);
+    return {
+      type: "ticker",
+      product_id: pair,
+      price: String(t.price),
+      best_bid: String(t.bid),
+      best_ask: String(t.ask),
+      volume_24h: String(t.volume),
+      time: new Date().toISOString(),
+    };
+  });
+}
+
+function send(client: Client, msgs: unknown[]): void {
+  if (client.ws.readyState !== WebSocket.OPEN) return;
+  for (const msg of msgs) client.ws.send(JSON.stringify(msg));
+}
+
+function onSubscribe(client: Client, msg: any): void {
+  if (client.feed === "kraken") {
+    const symbols: string[] = Array.isArray(msg?.params?.symbol) ? msg.params.symbol : [];
+    client.pairs = symbols.map((s) => s.replace("/", "-"));
+    send(client, [{ method: "subscribe", success: true, result: { channel: "ticker" } }]);
+  } else {
+    client.pairs = Array.isArray(msg?.product_ids) ? msg.product_ids : [];
+    send(client, [{ type: "subscriptions", channels: [{ name: "ticker", product_ids: client.pairs }] }]);
+  }
+  send(client, tickMessages(client, "snapshot"));
+}
+
+const wss = new WebSocketServer({ port });
+
+wss.on("connection", (ws, req) => {
+  const feed = req.url?.replace(/^\//, "");
+  if (feed !== "coinbase" && feed !== "kraken") {
+    ws.close(1008, "unknown feed");
+    return;
+  }
+  const client: Client = { ws, feed, pairs: [] };
+  clients.add(client);
+  console.log(`${feed} client connected`);
+
+  ws.on("message", (data) => {
+    let msg: any;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    if (msg?.type === "subscribe" || msg?.method === "subscribe") onSubscribe(client, msg);
+  });
+  ws.on("close", () => clients.delete(client));
+});
+
+setInterval(() => {
+  clients.forEach((client) => {
+    send(client, tickMessages(client, "update"));
+    if (client.feed === "kraken") send(client, [{ channel: "heartbeat" }]);
+  });
+}, tickMs);
+
+if (dropEveryMs > 0) {
+  setInterval(() => {
+    console.log(`dropping ${clients.size} connection(s)`);
+    clients.forEach((client) => client.ws.terminate());
+  }, dropEveryMs);
+}
+
+wss.on("listening", () => console.log(`stream stand-in on ws://127.0.0.1:${port} (/coinbase, /kraken), tick ${tickMs}ms`));
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { PriceSample } from "@shared/schema";
+import { aggregate, dispersionOf, median, rejectOutliers } from "./aggregate";
+
+function samples(values: number[], volumes: (number | undefined)[] = []): PriceSample[] {
+  return values.map((value, i) => ({ source: `s${i}`, value, ts: 0, ...(volumes[i] !== undefined ? { volume: volumes[i] } : {}) }));
+}
+
+describe("median", () => {
+  it("averages the middle pair of an even count", () => {
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([3, 1, 2])).toBe(2);
+  });
+});
+
+describe("rejectOutliers", () => {
+  it("drops a sample far from the median, with a reason", () => {
+    const { kept, rejected } = rejectOutliers(samples([100, 100.1, 99.9, 105]));
+
+    expect(kept.map((s) => s.value)).toEqual([100, 100.1, 99.9]);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].value).toBe(105);
+    expect(rejected[0].reason).toMatch(/modified z-score/);
+  });
+
+  it("keeps ordinary spread when sources agree exactly (MAD = 0)", () => {
+    // MAD is 0 here; the floor keeps a 0.01% difference from scoring as infinite.
+    const { kept, rejected } = rejectOutliers(samples([100, 100, 100, 100.01]));
+
+    expect(rejected).toEqual([]);
+    expect(kept).toHaveLength(4);
+  });
+
+  it("judges small sets by the MAD floor", () => {
+    const { rejected } = rejectOutliers(samples([100, 100.02, 103]));
+
+    expect(rejected.map((s) => s.value)).toEqual([103]);
+  });
+
+  it("leaves fewer than three samples alone", () => {
+    const { kept, rejected } = rejectOutliers(samples([100, 200]));
+
+    expect(kept).toHaveLength(2);
+    expect(rejected).toEqual([]);
+  });
+});
+
+describe("aggregate", () => {
+  it("uses the median for three or more samples", () => {
+    const result = aggregate(samples([1, 2, 10]), "median", 3);
+
+    expect(result.method).toBe("median");
+    expect(result.value).toBe(2);
+  });
+
+  it("falls back to the mean below three samples", () => {
+    const result = aggregate(samples([1, 3]), "median", 2);
+
+    expect(result.method).toBe("mean");
+    expect(result.value).toBe(2);
+  });
+
+  it("trims the extremes only with five or more samples", () => {
+    expect(aggregate(samples([1, 2, 3, 4, 100]), "trimmed_mean", 3)).toMatchObject({ method: "trimmed_mean", value: 3 });
+    expect(aggregate(samples([1, 2, 3, 100]), "trimmed_mean", 3).method).toBe("median");
+  });
+
+  it("weights vwap by volume", () => {
+    const result = aggregate(samples([100, 200, 300], [1, 1, 2]), "vwap", 3);
+
+    expect(result.method).toBe("vwap");
+    expect(result.value).toBe(225);
+  });
+
+  it("takes the price where cumulative volume crosses half for volume_weighted_median", () => {
+    expect(aggregate(samples([100, 200, 300], [1, 1, 5]), "volume_weighted_median", 3).value).toBe(300);
+    // Cumulative volume lands exactly on half: average the neighbours.
+    expect(aggregate(samples([100, 200, 300, 400], [1, 1, 1, 1]), "volume_weighted_median", 3).value).toBe(250);
+  });
+
+  it("falls back from volume methods when fewer venues than the quorum report volume", () => {
+    const result = aggregate(samples([100, 200, 300], [1, 1, undefined]), "vwap", 3);
+
+    expect(result.method).toBe("median");
+    expect(result.used).toHaveLength(3);
+  });
+
+  it("reports dispersion over every kept sample", () => {
+    const result = aggregate(samples([100, 200, 300], [1, 1, 2]), "vwap", 3);
+
+    expect(result.dispersion).toMatchObject({ min: 100, max: 300, spread: 200, stddev: 100 });
+  });
+});
+
+describe("dispersionOf", () => {
+  it("measures conf as the half-width covering the middle half around the value", () => {
+    const d = dispersionOf([1, 2, 3, 4, 5], 3);
+
+    expect(d.conf).toBe(1);
+    expect(d.stddev).toBeCloseTo(Math.sqrt(2.5));
+  });
+
+  it("has no spread for a single sample", () => {
+    expect(dispersionOf([7], 7)).toEqual({ min: 7, max: 7, spread: 0, stddev: 0, conf: 0 });
+  });
+});
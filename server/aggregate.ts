@@ -0,0 +1,155 @@
+import type { Dispersion, PriceSample, RejectedSample } from "@shared/schema";
+import { priceSources } from "./sources";
+
+// "mad" (modified z-score), "pct" (distance from the median) or "off".
+const OUTLIER_FILTER = process.env.OUTLIER_FILTER ?? "mad";
+const OUTLIER_MAD_THRESHOLD = Number(process.env.OUTLIER_MAD_THRESHOLD ?? 3.5);
+const OUTLIER_MAD_FLOOR_PCT = Number(process.env.OUTLIER_MAD_FLOOR_PCT ?? 0.05);
+const OUTLIER_MAX_DEVIATION_PCT = Number(process.env.OUTLIER_MAX_DEVIATION_PCT ?? 2);
+// Below this many samples there is no majority to judge an outlier against.
+const OUTLIER_MIN_SAMPLES = 3;
+
+export interface Aggregate {
+  value: number;
+  method: string;
+  used: PriceSample[];
+  dispersion: Dispersion;
+}
+
+export function median(values: number[]): number {
+  const arr = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(arr.length / 2);
+  return arr.length % 2 === 0 ? (arr[mid - 1] + arr[mid]) / 2 : arr[mid];
+}
+
+function weightedMean(samples: PriceSample[]): number {
+  let sum = 0;
+  let weights = 0;
+  for (const s of samples) {
+    const w = priceSources.weightOf(s.source);
+    sum += s.value * w;
+    weights += w;
+  }
+  return sum / weights;
+}
+
+function percentile(sorted: number[], p: number): number {
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function dispersionOf(values: number[], value: number): Dispersion {
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.length > 1 ? values.reduce((n, v) => n + (v - mean) ** 2, 0) / (values.length - 1) : 0;
+  const conf = Math.max(value - percentile(sorted, 0.25), percentile(sorted, 0.75) - value, 0);
+  return { min, max, spread: max - min, stddev: Math.sqrt(variance), conf };
+}
+
+function hasVolume(s: PriceSample): s is PriceSample & { volume: number } {
+  return s.volume !== undefined && s.volume > 0;
+}
+
+function vwap(samples: (PriceSample & { volume: number })[]): number {
+  let notional = 0;
+  let volume = 0;
+  for (const s of samples) {
+    notional += s.value * s.volume;
+    volume += s.volume;
+  }
+  return notional / volume;
+}
+
+/** The price at which cumulative volume, walking up from the lowest quote, reaches half the total. */
+function volumeWeightedMedian(samples: (PriceSample & { volume: number })[]): number {
+  const sorted = [...samples].sort((a, b) => a.value - b.value);
+  const half = sorted.reduce((n, s) => n + s.volume, 0) / 2;
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].volume;
+    if (cumulative === half) return (sorted[i].value + sorted[i + 1].value) / 2;
+    if (cumulative > half) return sorted[i].value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Scores a sample by its distance from the median and returns a reason when it is past
+ * the configured threshold. MAD uses the Iglewicz-Hoaglin modified z-score
+ * (|x - median| / (MAD / 0.6745)), with MAD floored at OUTLIER_MAD_FLOOR_PCT of the median
+ * so a tight cluster (or exact agreement, MAD = 0) doesn't turn ordinary spread into outliers.
+ */
+function outlierReason(value: number, mid: number, mad: number): string | null {
+  if (OUTLIER_FILTER === "pct") {
+    const pct = (Math.abs(value - mid) / mid) * 100;
+    return pct > OUTLIER_MAX_DEVIATION_PCT ? `deviates ${pct.toFixed(2)}% from median (max ${OUTLIER_MAX_DEVIATION_PCT}%)` : null;
+  }
+
+  const scale = Math.max(mad, (mid * OUTLIER_MAD_FLOOR_PCT) / 100) / 0.6745;
+  const z = Math.abs(value - mid) / scale;
+  return z > OUTLIER_MAD_THRESHOLD ? `modified z-score ${z.toFixed(2)} exceeds ${OUTLIER_MAD_THRESHOLD}` : null;
+}
+
+export function rejectOutliers(samples: PriceSample[]): { kept: PriceSample[]; rejected: RejectedSample[] } {
+  if (OUTLIER_FILTER === "off" || samples.length < OUTLIER_MIN_SAMPLES) return { kept: samples, rejected: [] };
+
+  const values = samples.map((s) => s.value);
+  const mid = median(values);
+  const mad = median(values.map((v) => Math.abs(v - mid)));
+  const kept: PriceSample[] = [];
+  const rejected: RejectedSample[] = [];
+  for (const s of samples) {
+    const reason = outlierReason(s.value, mid, mad);
+    if (reason) rejected.push({ ...s, reason });
+    else kept.push(s);
+  }
+  return { kept, rejected };
+}
+
+/**
+ * Whether `kept` reaches `quorum` for `method` itself: volume-weighted methods count only
+ * venues that report volume, and fall back to another method below that.
+ */
+export function meetsQuorum(kept: PriceSample[], method: string, quorum: number): boolean {
+  if (kept.length < quorum) return false;
+  return (method !== "vwap" && method !== "volume_weighted_median") || kept.filter(hasVolume).length >= quorum;
+}
+
+/** Combines samples that already passed {@link rejectOutliers}; `quorum` is the pair's minimum source count. */
+export function aggregate(kept: PriceSample[], method: string, quorum: number): Aggregate {
+  if (!kept.length) throw new Error("no samples");
+  const result = combine(kept, method, quorum);
+  // Dispersion covers every kept sample, not just those a method weighted.
+  return { ...result, dispersion: dispersionOf(kept.map((s) => s.value), result.value) };
+}
+
+function combine(kept: PriceSample[], method: string, quorum: number): { value: number; method: string; used: PriceSample[] } {
+  const values = kept.map((s) => s.value);
+
+  // Volume-weighted methods only count venues that report volume. Fewer of those than the
+  // quorum would let a value rest on too few venues, so fall through to the standard methods.
+  const withVolume = kept.filter(hasVolume);
+  const volumeQuorum = meetsQuorum(kept, method, quorum);
+  if (method === "vwap" && volumeQuorum) {
+    return { value: vwap(withVolume), method: "vwap", used: withVolume };
+  }
+  if (method === "volume_weighted_median" && volumeQuorum) {
+    return { value: volumeWeightedMedian(withVolume), method: "volume_weighted_median", used: withVolume };
+  }
+
+  if (method === "trimmed_mean" && kept.length >= 5) {
+    const sorted = [...kept].sort((a, b) => a.value - b.value);
+    const used = sorted.slice(1, -1);
+    return { value: weightedMean(used), method: "trimmed_mean", used };
+  }
+
+  if (kept.length >= 3) {
+    return { value: median(values), method: "median", used: kept };
+  }
+
+  return { value: weightedMean(kept), method: "mean", used: kept };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { NostrEvent } from "@shared/schema";
+import { EventIndex } from "./event-index";
+
+let seq = 0;
+
+function event(fields: Partial<NostrEvent> = {}): NostrEvent {
+  seq++;
+  return {
+    id: fields.id ?? seq.toString(16).padStart(64, "0"),
+    pubkey: "a".repeat(64),
+    created_at: 1000,
+    kind: 1,
+    tags: [],
+    content: "",
+    sig: "",
+    ...fields,
+  };
+}
+
+function ids(events: NostrEvent[]): string[] {
+  return events.map((e) => e.id);
+}
+
+describe("EventIndex.query", () => {
+  it("returns newest first, breaking created_at ties by lowest id", () => {
+    const index = new EventIndex();
+    const old = event({ id: "01", created_at: 100 });
+    const tieB = event({ id: "0b", created_at: 200 });
+    const tieA = event({ id: "0a", created_at: 200 });
+    const newest = event({ id: "02", created_at: 300 });
+    [tieB, old, newest, tieA].forEach((e) => index.add(e));
+
+    expect(ids(index.query([{}]))).toEqual(["02", "0a", "0b", "01"]);
+  });
+
+  it("applies limit after ordering", () => {
+    const index = new EventIndex();
+    for (let t = 1; t <= 5; t++) index.add(event({ created_at: t }));
+
+    expect(index.query([{ limit: 2 }]).map((e) => e.created_at)).toEqual([5, 4]);
+    expect(index.query([{ limit: 0 }])).toEqual([]);
+  });
+
+  it("stops at since and honours until", () => {
+    const index = new EventIndex();
+    for (let t = 1; t <= 10; t++) index.add(event({ created_at: t }));
+
+    expect(index.query([{ since: 8 }]).map((e) => e.created_at)).toEqual([10, 9, 8]);
+    expect(index.query([{ since: 3, until: 5 }]).map((e) => e.created_at)).toEqual([5, 4, 3]);
+  });
+
+  it("matches every condition whichever index it walks", () => {
+    const index = new EventIndex();
+    const alice = "a".repeat(64);
+    const bob = "b".repeat(64);
+    // Many kind-1 events make the author index the smaller candidate list.
+    for (let i = 0; i < 20; i++) index.add(event({ kind: 1, pubkey: alice, created_at: i }));
+    const wanted = event({ kind: 1, pubkey: bob, created_at: 50, tags: [["t", "x"]] });
+    index.add(wanted);
+    index.add(event({ kind: 7, pubkey: bob, created_at: 60, tags: [["t", "x"]] }));
+    index.add(event({ kind: 1, pubkey: bob, created_at: 70, tags: [["t", "y"]] }));
+
+    expect(ids(index.query([{ kinds: [1], authors: [bob], "#t": ["x"] }]))).toEqual([wanted.id]);
+  });
+
+  it("merges multiple filters without duplicates", () => {
+    const index = new EventIndex();
+    const a = event({ kind: 1, created_at: 1 });
+    const b = event({ kind: 2, created_at: 2 });
+    index.add(a);
+    index.add(b);
+
+    expect(ids(index.query([{ kinds: [1] }, { kinds: [1, 2] }]))).toEqual([b.id, a.id]);
+  });
+
+  it("finds nothing for values no event has", () => {
+    const index = new EventIndex();
+    index.add(event({ kind: 1 }));
+
+    expect(index.query([{ kinds: [999] }])).toEqual([]);
+    expect(index.query([{ "#e": ["missing"] }])).toEqual([]);
+  });
+
+  it("forgets removed events in every index", () => {
+    const index = new EventIndex();
+    const e = event({ kind: 3, tags: [["p", "x"]] });
+    index.add(e);
+    index.remove(e.id);
+
+    expect(index.query([{}, { kinds: [3] }, { "#p": ["x"] }])).toEqual([]);
+    expect(index.size).toBe(0);
+  });
+});
+
+describe("EventIndex.count", () => {
+  it("ignores limit and counts each event once", () => {
+    const index = new EventIndex();
+    for (let t = 1; t <= 5; t++) index.add(event({ kind: 1, created_at: t }));
+
+    expect(index.count([{ kinds: [1], limit: 1 }, {}], 1000)).toBe(5);
+  });
+
+  it("leaves out expired events", () => {
+    const index = new EventIndex();
+    index.add(event({ tags: [["expiration", "500"]] }));
+    index.add(event({ tags: [["expiration", "2000"]] }));
+    index.add(event());
+
+    expect(index.count([{}], 1000)).toBe(2);
+  });
+});
@@ -0,0 +1,177 @@
+import type { NostrEvent } from "@shared/schema";
+import { isExpired } from "./event-kinds";
+import { compareEvents, filterLimit, isIndexedTag, matchFilter, mergeResults, tagFilters, type NostrFilter } from "./nostr-filter";
+
+/** Oldest-first list of events, kept sorted so the newest match is always at the end. */
+class SortedEvents {
+  items: NostrEvent[] = [];
+
+  private position(evt: NostrEvent): number {
+    let lo = 0;
+    let hi = this.items.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (compareEvents(this.items[mid], evt) > 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  insert(evt: NostrEvent): void {
+    const last = this.items[this.items.length - 1];
+    if (!last || compareEvents(last, evt) > 0) {
+      this.items.push(evt);
+      return;
+    }
+    this.items.splice(this.position(evt), 0, evt);
+  }
+
+  remove(evt: NostrEvent): void {
+    const i = this.position(evt);
+    if (this.items[i]?.id === evt.id) this.items.splice(i, 1);
+  }
+
+  /** Walks newest to oldest, collecting up to `limit` events matching `f`. */
+  collect(f: NostrFilter, limit: number): NostrEvent[] {
+    const out: NostrEvent[] = [];
+    for (let i = this.items.length - 1; i >= 0 && out.length < limit; i--) {
+      const e = this.items[i];
+      if (f.since && e.created_at < f.since) break;
+      if (matchFilter(e, f)) out.push(e);
+    }
+    return out;
+  }
+}
+
+/**
+ * In-memory event index keyed by id, kind, author and single-letter tag values.
+ * Each secondary index keeps its events in NIP-01 order so a filter only walks
+ * the smallest candidate list that could satisfy it.
+ */
+export class EventIndex {
+  private byId = new Map<string, NostrEvent>();
+  private all = new SortedEvents();
+  private byKind = new Map<number, SortedEvents>();
+  private byAuthor = new Map<string, SortedEvents>();
+  private byTag = new Map<string, SortedEvents>();
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  get(id: string): NostrEvent | undefined {
+    return this.byId.get(id);
+  }
+
+  oldest(): NostrEvent | undefined {
+    return this.all.items[0];
+  }
+
+  add(evt: NostrEvent): boolean {
+    if (this.byId.has(evt.id)) return false;
+    this.byId.set(evt.id, evt);
+    this.all.insert(evt);
+    this.bucket(this.byKind, evt.kind).insert(evt);
+    this.bucket(this.byAuthor, evt.pubkey).insert(evt);
+    for (const key of this.tagKeys(evt)) this.bucket(this.byTag, key).insert(evt);
+    return true;
+  }
+
+  remove(id: string): NostrEvent | undefined {
+    const evt = this.byId.get(id);
+    if (!evt) return undefined;
+    this.byId.delete(id);
+    this.all.remove(evt);
+    this.unbucket(this.byKind, evt.kind, evt);
+    this.unbucket(this.byAuthor, evt.pubkey, evt);
+    for (const key of this.tagKeys(evt)) this.unbucket(this.byTag, key, evt);
+    return evt;
+  }
+
+  query(filters: NostrFilter[]): NostrEvent[] {
+    return mergeResults(filters.map((f) => this.queryOne(f)));
+  }
+
+  /**
+   * Number of distinct events matching any filter; `limit` is ignored as NIP-45 requires.
+   * Events expired at `now` are left out, as REQ leaves them out.
+   */
+  count(filters: NostrFilter[], now: number): number {
+    const ids = new Set<string>();
+    for (const f of filters) {
+      for (const e of this.queryOne(f, Infinity)) {
+        if (!isExpired(e, now)) ids.add(e.id);
+      }
+    }
+    return ids.size;
+  }
+
+  private queryOne(f: NostrFilter, limit = filterLimit(f)): NostrEvent[] {
+    if (limit === 0) return [];
+
+    if (Array.isArray(f.ids)) {
+      const found: NostrEvent[] = [];
+      for (const id of f.ids) {
+        const e = this.byId.get(id);
+        if (e && matchFilter(e, f)) found.push(e);
+      }
+      return found.sort(compareEvents).slice(0, limit);
+    }
+
+    const lists = this.candidates(f);
+    if (lists.length === 1) return lists[0].collect(f, limit);
+    return mergeResults(lists.map((l) => l.collect(f, limit))).slice(0, limit);
+  }
+
+  /** Picks the index dimension with the fewest events for this filter. */
+  private candidates(f: NostrFilter): SortedEvents[] {
+    const options: SortedEvents[][] = [];
+    if (Array.isArray(f.kinds)) options.push(this.lookup(this.byKind, f.kinds));
+    if (Array.isArray(f.authors)) options.push(this.lookup(this.byAuthor, f.authors));
+    for (const { name, values } of tagFilters(f)) {
+      if (!isIndexedTag(name) || !Array.isArray(values)) continue;
+      options.push(this.lookup(this.byTag, values.map((v) => `${name}:${v}`)));
+    }
+    if (!options.length) return [this.all];
+
+    const total = (lists: SortedEvents[]) => lists.reduce((n, l) => n + l.items.length, 0);
+    return options.reduce((best, cur) => (total(cur) < total(best) ? cur : best));
+  }
+
+  private lookup<K>(index: Map<K, SortedEvents>, keys: K[]): SortedEvents[] {
+    const out: SortedEvents[] = [];
+    for (const k of Array.from(new Set(keys))) {
+      const list = index.get(k);
+      if (list) out.push(list);
+    }
+    return out;
+  }
+
+  private tagKeys(evt: NostrEvent): string[] {
+    const keys = new Set<string>();
+    for (const t of evt.tags ?? []) {
+      if (isIndexedTag(t[0]) && t[1] !== undefined) keys.add(`${t[0]}:${t[1]}`);
+    }
+    return Array.from(keys);
+  }
+
+  private bucket<K>(index: Map<K, SortedEvents>, key: K): SortedEvents {
+    let list = index.get(key);
+    if (!list) {
+      list = new SortedEvents();
+      index.set(key, list);
+    }
+    return list;
+  }
+
+  private unbucket<K>(index: Map<K, SortedEvents>, key: K, evt: NostrEvent): void {
+    const list = index.get(key);
+    if (!list) return;
+    list.remove(evt);
+    if (!list.items.length) index.delete(key);
+  }
+}
@@ -0,0 +1,42 @@
+import type { NostrEvent } from "@shared/schema";
+
+/** NIP-01 kind ranges that change how a relay stores an event. */
+export function isReplaceable(kind: number): boolean {
+  return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000);
+}
+
+export function isEphemeral(kind: number): boolean {
+  return kind >= 20000 && kind < 30000;
+}
+
+export function isAddressable(kind: number): boolean {
+  return kind >= 30000 && kind < 40000;
+}
+
+export function dTag(evt: NostrEvent): string {
+  return evt.tags.find((t) => t[0] === "d")?.[1] ?? "";
+}
+
+/**
+ * Key under which only the latest version of an event is kept: `kind:pubkey:` for
+ * replaceable kinds, `kind:pubkey:d` for addressable ones, null for regular events.
+ */
+export function eventAddress(evt: NostrEvent): string | null {
+  if (isReplaceable(evt.kind)) return `${evt.kind}:${evt.pubkey}:`;
+  if (isAddressable(evt.kind)) return `${evt.kind}:${evt.pubkey}:${dTag(evt)}`;
+  return null;
+}
+
+export const KIND_DELETION = 5;
+
+/** NIP-40 `expiration` tag as unix seconds, or null when the event never expires. */
+export function expirationOf(evt: NostrEvent): number | null {
+  const raw = evt.tags.find((t) => t[0] === "expiration")?.[1];
+  const exp = Number(raw);
+  return raw !== undefined && Number.isFinite(exp) ? Math.floor(exp) : null;
+}
+
+export function isExpired(evt: NostrEvent, now: number): boolean {
+  const exp = expirationOf(evt);
+  return exp !== null && exp <= now;
+}
@@ -0,0 +1,64 @@
+import type { NostrEvent } from "@shared/schema";
+
+export const DEFAULT_LIMIT = 200;
+export const MAX_LIMIT = 2000;
+
+export interface NostrFilter {
+  ids?: string[];
+  kinds?: number[];
+  authors?: string[];
+  since?: number;
+  until?: number;
+  limit?: number;
+  [key: string]: any;
+}
+
+export function filterLimit(f: NostrFilter): number {
+  const limit = Number(f.limit ?? DEFAULT_LIMIT);
+  if (!Number.isFinite(limit)) return DEFAULT_LIMIT;
+  return Math.max(0, Math.min(Math.floor(limit), MAX_LIMIT));
+}
+
+/** NIP-01 ordering: newest first, ties broken by lowest id. */
+export function compareEvents(a: NostrEvent, b: NostrEvent): number {
+  if (a.created_at !== b.created_at) return b.created_at - a.created_at;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/** Merges per-filter result sets into one deduplicated, newest-first list. */
+export function mergeResults(sets: NostrEvent[][]): NostrEvent[] {
+  const byId = new Map<string, NostrEvent>();
+  for (const set of sets) {
+    for (const e of set) byId.set(e.id, e);
+  }
+  return Array.from(byId.values()).sort(compareEvents);
+}
+
+/** NIP-01 only requires single-letter tags to be indexed. */
+export function isIndexedTag(name: string): boolean {
+  return /^[a-zA-Z]$/.test(name);
+}
+
+export function tagFilters(f: NostrFilter): { name: string; values: string[] }[] {
+  const out: { name: string; values: string[] }[] = [];
+  for (const k of Object.keys(f)) {
+    if (!k.startsWith("#")) continue;
+    out.push({ name: k.slice(1), values: f[k] ?? [] });
+  }
+  return out;
+}
+
+export function matchFilter(evt: NostrEvent, f: NostrFilter): boolean {
+  if (f.ids && Array.isArray(f.ids) && !f.ids.includes(evt.id)) return false;
+  if (f.kinds && Array.isArray(f.kinds) && !f.kinds.includes(evt.kind)) return false;
+  if (f.authors && Array.isArray(f.authors) && !f.authors.includes(evt.pubkey)) return false;
+  if (f.since && evt.created_at < f.since) return false;
+  if (f.until && evt.created_at > f.until) return false;
+
+  for (const { name, values } of tagFilters(f)) {
+    const have = (evt.tags ?? []).filter((t) => t[0] === name).map((t) => t[1]);
+    if (!values.some((x: string) => have.includes(x))) return false;
+  }
+
+  return true;
+}
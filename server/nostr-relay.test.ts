@@ -0,0 +1,522 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import { KIND_PRICE_ERR, KIND_PRICE_REQ, KIND_PRICE_RES, LABEL_PAIR, type NostrEvent } from "@shared/schema";
+
+// Importing ./index would start the app server.
+vi.mock("./index", () => ({ log: () => {} }));
+
+const BASE_ENV = {
+  PRICE_SOURCE_MODE: "mock",
+  EVENT_STORE: "memory",
+  RATE_IP_RPS: "1000",
+  RATE_PUBKEY_RPS: "1000",
+  RATE_BURST: "1000",
+};
+
+/**
+ * Starts a relay on a free port over fresh modules (so a fresh in-memory store), with `env`
+ * applied while they load.
+ */
+async function startRelay(env: Record<string, string> = {}): Promise<{ url: string; server: Server }> {
+  const saved = { ...process.env };
+  Object.assign(process.env, BASE_ENV, env);
+  vi.resetModules();
+  const { setupNostrRelay } = await import("./nostr-relay");
+  const server = createServer();
+  setupNostrRelay(server);
+  process.env = saved;
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return { url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`, server };
+}
+
+/** A relay connection that records every message, so tests can wait for one that matches. */
+class Client {
+  readonly received: any[][] = [];
+  private waiters: (() => void)[] = [];
+
+  private constructor(private ws: WebSocket) {
+    ws.on("message", (data) => {
+      this.received.push(JSON.parse(data.toString()));
+      this.waiters.splice(0).forEach((wake) => wake());
+    });
+  }
+
+  static async connect(url: string): Promise<Client> {
+    const ws = new WebSocket(url);
+    // Listen from the start: the relay sends its AUTH challenge as soon as the socket opens.
+    const client = new Client(ws);
+    await new Promise((resolve, reject) => ws.once("open", resolve).once("error", reject));
+    return client;
+  }
+
+  send(...msg: unknown[]): void {
+    this.ws.send(JSON.stringify(msg));
+  }
+
+  /** The first message from index `from` on (received so far or later) that `match` accepts. */
+  async next(match: (msg: any[]) => boolean, from = 0, timeoutMs = 3000): Promise<any[]> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const found = this.received.slice(from).find(match);
+      if (found) return found;
+      const left = deadline - Date.now();
+      if (left <= 0) throw new Error("timed out waiting for a message");
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, left);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  /** Sends an EVENT and resolves its OK as `[accepted, message]`. */
+  publish(evt: NostrEvent): Promise<[boolean, string]> {
+    return this.submit("EVENT", evt);
+  }
+
+  /** Answers the connection's NIP-42 challenge as `secretKey`, with `tags` replacing the usual ones. */
+  async authenticate(secretKey: Uint8Array, relayUrl: string, tags?: string[][]): Promise<[boolean, string]> {
+    const [, challenge] = await this.next((m) => m[0] === "AUTH");
+    const evt = sign({ kind: 22242, tags: tags ?? [["relay", relayUrl], ["challenge", challenge]] }, secretKey);
+    return this.submit("AUTH", evt);
+  }
+
+  private async submit(type: string, evt: NostrEvent): Promise<[boolean, string]> {
+    const from = this.received.length;
+    this.send(type, evt);
+    const [, , accepted, message] = await this.next((m) => m[0] === "OK" && m[1] === evt.id, from);
+    return [accepted, message];
+  }
+
+  /** Stored events for `filters`, up to EOSE. */
+  async query(subId: string, ...filters: object[]): Promise<NostrEvent[]> {
+    this.send("REQ", subId, ...filters);
+    await this.next((m) => m[0] === "EOSE" && m[1] === subId);
+    this.send("CLOSE", subId);
+    return this.events(subId);
+  }
+
+  events(subId: string): NostrEvent[] {
+    return this.received.filter((m) => m[0] === "EVENT" && m[1] === subId).map((m) => m[2]);
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
+
+function sign(fields: Partial<Omit<NostrEvent, "id" | "sig" | "pubkey">>, secretKey = generateSecretKey()): NostrEvent {
+  return finalizeEvent(
+    { kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content: "", ...fields },
+    secretKey,
+  ) as unknown as NostrEvent;
+}
+
+function ids(events: NostrEvent[]): string[] {
+  return events.map((e) => e.id);
+}
+
+describe("subscriptions", () => {
+  let relay: { url: string; server: Server };
+  let client: Client;
+
+  beforeAll(async () => {
+    relay = await startRelay();
+    client = await Client.connect(relay.url);
+  });
+  afterAll(() => {
+    vi.restoreAllMocks();
+    client.close();
+    relay.server.close();
+  });
+
+  it("sends an event saved while the stored query runs only once", async () => {
+    // The relay's own storage instance: modules were last reset by startRelay.
+    const { storage } = await import("./storage");
+    const publisher = await Client.connect(relay.url);
+    const evt = sign({ kind: 1111 });
+    const query = storage.queryEvents.bind(storage);
+    vi.spyOn(storage, "queryEvents").mockImplementationOnce(async (filters) => {
+      // Saved and fanned out after the subscription is registered, before its query reads the store.
+      await publisher.publish(evt);
+      return query(filters);
+    });
+
+    client.send("REQ", "live", { kinds: [1111] });
+    await client.next((m) => m[0] === "EOSE" && m[1] === "live");
+
+    expect(ids(client.events("live"))).toEqual([evt.id]);
+    publisher.close();
+  });
+});
+
+describe("price requests", () => {
+  let relay: { url: string; server: Server };
+  let client: Client;
+
+  beforeAll(async () => {
+    relay = await startRelay();
+    client = await Client.connect(relay.url);
+  });
+  afterAll(() => {
+    client.close();
+    relay.server.close();
+  });
+
+  async function ask(body: object): Promise<NostrEvent> {
+    const req = sign({ kind: KIND_PRICE_REQ, content: JSON.stringify(body) });
+    client.send("REQ", req.id, { kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [req.id] });
+    expect(await client.publish(req)).toEqual([true, "accepted"]);
+    const [, , reply] = await client.next((m) => m[0] === "EVENT" && m[1] === req.id);
+    return reply;
+  }
+
+  it("falls back to the default maxAgeMs for one that is not a positive number", async () => {
+    for (const maxAgeMs of [-1, 0, "soon"]) {
+      const reply = await ask({ pair: "BTC-USD", maxAgeMs });
+
+      expect(reply.kind).toBe(KIND_PRICE_RES);
+      expect(JSON.parse(reply.content).sources_used.length).toBeGreaterThanOrEqual(3);
+    }
+  });
+});
+
+/** Retries `check` until it passes, for effects the relay applies after sending OK. */
+async function eventually(check: () => Promise<void>, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      return await check();
+    } catch (e) {
+      if (Date.now() > deadline) throw e;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+}
+
+describe("NIP-09 deletion and NIP-40 expiration", () => {
+  let relay: { url: string; server: Server };
+  let client: Client;
+  let subs = 0;
+
+  beforeAll(async () => {
+    relay = await startRelay();
+    client = await Client.connect(relay.url);
+  });
+  afterAll(() => {
+    vi.useRealTimers();
+    client.close();
+    relay.server.close();
+  });
+
+  const query = (...filters: object[]) => client.query(`q${subs++}`, ...filters);
+
+  it("removes every event a deletion names, beyond the default page size", async () => {
+    const author = generateSecretKey();
+    const notes = Array.from({ length: 250 }, (_, i) => sign({ content: `note ${i}` }, author));
+    for (const note of notes) expect((await client.publish(note))[0]).toBe(true);
+
+    const del = sign({ kind: 5, tags: notes.map((n) => ["e", n.id]) }, author);
+    expect(await client.publish(del)).toEqual([true, "accepted"]);
+
+    await eventually(async () => expect(await query({ ids: notes.map((n) => n.id), limit: 500 })).toEqual([]));
+    expect(await query({ ids: [del.id] })).toHaveLength(1);
+  });
+
+  it("ignores deletions of someone else's events and blocks re-publishing deleted ones", async () => {
+    const author = generateSecretKey();
+    const mine = sign({ content: "mine" }, author);
+    const theirs = sign({ content: "theirs" });
+    await client.publish(mine);
+    await client.publish(theirs);
+
+    await client.publish(sign({ kind: 5, tags: [["e", mine.id], ["e", theirs.id]] }, author));
+
+    await eventually(async () => expect(ids(await query({ ids: [mine.id, theirs.id] }))).toEqual([theirs.id]));
+    expect(await client.publish(mine)).toEqual([false, "blocked: event was deleted by its author"]);
+  });
+
+  it("deletes an addressable event by its address, up to the deletion's created_at", async () => {
+    const author = generateSecretKey();
+    const now = Math.floor(Date.now() / 1000);
+    const old = sign({ kind: 30000, created_at: now - 10, tags: [["d", "list"]] }, author);
+    await client.publish(old);
+
+    const del = sign({ kind: 5, created_at: now - 5, tags: [["a", `30000:${old.pubkey}:list`]] }, author);
+    await client.publish(del);
+    await eventually(async () => expect(await query({ ids: [old.id] })).toEqual([]));
+
+    // A version newer than the deletion is not covered by it.
+    const newer = sign({ kind: 30000, created_at: now, tags: [["d", "list"]] }, author);
+    expect(await client.publish(newer)).toEqual([true, "accepted"]);
+  });
+
+  it("rejects expired events and hides stored ones once they expire", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const expired = sign({ tags: [["expiration", String(now - 1)]] });
+    expect(await client.publish(expired)).toEqual([false, "invalid: event has expired"]);
+
+    const shortLived = sign({ tags: [["expiration", String(now + 60)]] });
+    await client.publish(shortLived);
+    expect(await query({ ids: [shortLived.id] })).toHaveLength(1);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime((now + 61) * 1000);
+    expect(await query({ ids: [shortLived.id] })).toEqual([]);
+    vi.useRealTimers();
+  });
+});
+
+describe("NIP-42 AUTH with RESTRICT_PRICE_RESPONSES", () => {
+  let relay: { url: string; server: Server };
+  const clients: Client[] = [];
+
+  beforeAll(async () => {
+    relay = await startRelay({ RESTRICT_PRICE_RESPONSES: "1" });
+  });
+  afterAll(() => {
+    clients.forEach((c) => c.close());
+    relay.server.close();
+  });
+
+  async function connect(): Promise<Client> {
+    const client = await Client.connect(relay.url);
+    clients.push(client);
+    return client;
+  }
+
+  it("refuses subscriptions to price replies before AUTH", async () => {
+    const client = await connect();
+    client.send("REQ", "replies", { kinds: [KIND_PRICE_RES] });
+
+    const [, , reason] = await client.next((m) => m[0] === "CLOSED" && m[1] === "replies");
+    expect(reason).toMatch(/^auth-required:/);
+  });
+
+  it("accepts only an auth event for this connection's challenge and relay", async () => {
+    const client = await connect();
+    const key = generateSecretKey();
+    const [, challenge] = await client.next((m) => m[0] === "AUTH");
+
+    expect(await client.authenticate(key, relay.url, [["relay", relay.url], ["challenge", "other"]])).toEqual([false, "invalid: challenge mismatch"]);
+    expect(await client.authenticate(key, relay.url, [["relay", "ws://elsewhere.example/ws"], ["challenge", challenge]])).toEqual([
+      false,
+      "invalid: relay url mismatch",
+    ]);
+    expect(await client.authenticate(key, relay.url)).toEqual([true, ""]);
+
+    const sentAsEvent = sign({ kind: 22242, tags: [["relay", relay.url], ["challenge", challenge]] }, key);
+    expect(await client.publish(sentAsEvent)).toEqual([false, "invalid: auth events must be sent with AUTH"]);
+  });
+
+  it("delivers a price reply only to the pubkey it answers", async () => {
+    const requester = await connect();
+    const other = await connect();
+    const key = generateSecretKey();
+    await requester.authenticate(key, relay.url);
+    await other.authenticate(generateSecretKey(), relay.url);
+
+    const req = sign({ kind: KIND_PRICE_REQ, content: JSON.stringify({ pair: "BTC-USD" }) }, key);
+    requester.send("REQ", "mine", { kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [req.id] });
+    other.send("REQ", "theirs", { kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [req.id] });
+    await requester.publish(req);
+
+    const [, , reply] = await requester.next((m) => m[0] === "EVENT" && m[1] === "mine");
+    expect(reply.kind).toBe(KIND_PRICE_RES);
+    expect(await other.query("stored", { ids: [reply.id] })).toEqual([]);
+    expect(other.events("theirs")).toEqual([]);
+  });
+});
+
+describe("duplicate and replayed events", () => {
+  let relay: { url: string; server: Server };
+  let client: Client;
+
+  beforeAll(async () => {
+    relay = await startRelay();
+    client = await Client.connect(relay.url);
+  });
+  afterAll(() => {
+    client.close();
+    relay.server.close();
+  });
+
+  it("acknowledges a re-sent event as a duplicate without delivering it again", async () => {
+    const note = sign({ kind: 1112 });
+    client.send("REQ", "notes", { kinds: [1112] });
+    await client.next((m) => m[0] === "EOSE" && m[1] === "notes");
+
+    expect(await client.publish(note)).toEqual([true, "accepted"]);
+    expect(await client.publish(note)).toEqual([true, "duplicate: already have this event"]);
+    expect(ids(client.events("notes"))).toEqual([note.id]);
+  });
+
+  it("re-serves the signed reply to a re-sent price request instead of quoting again", async () => {
+    const req = sign({ kind: KIND_PRICE_REQ, content: JSON.stringify({ pair: "BTC-USD" }) });
+    client.send("REQ", req.id, { kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [req.id] });
+    await client.publish(req);
+    const [, , reply] = await client.next((m) => m[0] === "EVENT" && m[1] === req.id);
+
+    const from = client.received.length;
+    expect(await client.publish(req)).toEqual([true, "duplicate: already have this event"]);
+    const [, , replayed] = await client.next((m) => m[0] === "EVENT" && m[1] === req.id, from);
+
+    expect(replayed.id).toBe(reply.id);
+    expect(await client.query("replies", { kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [req.id] })).toHaveLength(1);
+  });
+
+  it("rejects price requests outside the created_at window", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const stale = sign({ kind: KIND_PRICE_REQ, created_at: now - 301, content: "{}" });
+    const future = sign({ kind: KIND_PRICE_REQ, created_at: now + 901, content: "{}" });
+
+    expect(await client.publish(stale)).toEqual([false, "invalid: event created_at is too old"]);
+    expect(await client.publish(future)).toEqual([false, "invalid: event created_at is too far in the future"]);
+    // Other kinds have no lower bound by default.
+    expect((await client.publish(sign({ created_at: now - 86_400 })))[0]).toBe(true);
+  });
+});
+
+describe("replaceable, addressable and ephemeral kinds", () => {
+  let relay: { url: string; server: Server };
+  let client: Client;
+  let subs = 0;
+
+  beforeAll(async () => {
+    relay = await startRelay();
+    client = await Client.connect(relay.url);
+  });
+  afterAll(() => {
+    client.close();
+    relay.server.close();
+  });
+
+  const query = (...filters: object[]) => client.query(`q${subs++}`, ...filters);
+
+  it("keeps only the newest replaceable event per author and kind", async () => {
+    const author = generateSecretKey();
+    const now = Math.floor(Date.now() / 1000);
+    const older = sign({ kind: 10002, created_at: now - 10 }, author);
+    const newer = sign({ kind: 10002, created_at: now }, author);
+
+    await client.publish(older);
+    expect(await client.publish(newer)).toEqual([true, "accepted"]);
+    expect(await client.publish(sign({ kind: 10002, created_at: now - 5 }, author))).toEqual([
+      true,
+      "duplicate: already have this event or a newer version",
+    ]);
+    expect(ids(await query({ kinds: [10002], authors: [newer.pubkey] }))).toEqual([newer.id]);
+  });
+
+  it("breaks a created_at tie by keeping the lowest id", async () => {
+    const author = generateSecretKey();
+    const now = Math.floor(Date.now() / 1000);
+    const pair = [sign({ kind: 10003, created_at: now, content: "a" }, author), sign({ kind: 10003, created_at: now, content: "b" }, author)];
+    const [low, high] = pair.sort((a, b) => (a.id < b.id ? -1 : 1));
+
+    await client.publish(high);
+    expect(await client.publish(low)).toEqual([true, "accepted"]);
+    expect(await client.publish(high)).toEqual([true, "duplicate: already have this event or a newer version"]);
+    expect(ids(await query({ kinds: [10003], authors: [low.pubkey] }))).toEqual([low.id]);
+  });
+
+  it("addresses addressable events by their d tag", async () => {
+    const author = generateSecretKey();
+    const now = Math.floor(Date.now() / 1000);
+    const a1 = sign({ kind: 30001, created_at: now - 1, tags: [["d", "a"]] }, author);
+    const a2 = sign({ kind: 30001, created_at: now, tags: [["d", "a"]] }, author);
+    const b = sign({ kind: 30001, created_at: now - 1, tags: [["d", "b"]] }, author);
+    for (const evt of [a1, b, a2]) await client.publish(evt);
+
+    expect(ids(await query({ kinds: [30001], authors: [a1.pubkey] })).sort()).toEqual([a2.id, b.id].sort());
+  });
+
+  it("relays ephemeral events live without storing them", async () => {
+    const evt = sign({ kind: 20001 });
+    client.send("REQ", "live", { kinds: [20001] });
+    await client.next((m) => m[0] === "EOSE" && m[1] === "live");
+
+    expect(await client.publish(evt)).toEqual([true, ""]);
+    await client.next((m) => m[0] === "EVENT" && m[1] === "live");
+    expect(await query({ kinds: [20001] })).toEqual([]);
+  });
+
+  it("stores each price reply at its own address, labelled for single-letter filters", async () => {
+    const req = sign({ kind: KIND_PRICE_REQ, content: JSON.stringify({ pair: "BTC-USD" }) });
+    client.send("REQ", req.id, { kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [req.id] });
+    await client.publish(req);
+    const [, , reply] = await client.next((m) => m[0] === "EVENT" && m[1] === req.id);
+
+    expect(reply.tags).toContainEqual(["d", req.id]);
+    expect(reply.tags).toContainEqual(["l", "BTC-USD", LABEL_PAIR]);
+    expect(ids(await query({ kinds: [KIND_PRICE_RES], "#l": ["BTC-USD"], "#d": [req.id] }))).toEqual([reply.id]);
+  });
+});
+
+describe("NIP-45 COUNT", () => {
+  let relay: { url: string; server: Server };
+  let restricted: { url: string; server: Server };
+  const clients: Client[] = [];
+
+  beforeAll(async () => {
+    relay = await startRelay();
+    restricted = await startRelay({ RESTRICT_PRICE_RESPONSES: "1" });
+  });
+  afterAll(() => {
+    clients.forEach((c) => c.close());
+    relay.server.close();
+    restricted.server.close();
+  });
+
+  async function connect(url: string): Promise<Client> {
+    const client = await Client.connect(url);
+    clients.push(client);
+    return client;
+  }
+
+  async function count(client: Client, subId: string, ...filters: object[]): Promise<any[]> {
+    client.send("COUNT", subId, ...filters);
+    return client.next((m) => (m[0] === "COUNT" || m[0] === "CLOSED") && m[1] === subId);
+  }
+
+  it("counts events matching any filter once each, ignoring limit", async () => {
+    const client = await connect(relay.url);
+    const author = generateSecretKey();
+    for (let i = 0; i < 3; i++) await client.publish(sign({ kind: 1113, content: `${i}` }, author));
+    await client.publish(sign({ kind: 1113 }));
+
+    expect(await count(client, "all", { kinds: [1113], limit: 1 })).toEqual(["COUNT", "all", { count: 4 }]);
+    expect(await count(client, "overlap", { kinds: [1113] }, { authors: [getPublicKey(author)] })).toEqual(["COUNT", "overlap", { count: 4 }]);
+  });
+
+  it("closes a COUNT with an invalid subscription id or filter", async () => {
+    const client = await connect(relay.url);
+
+    expect(await count(client, "", {})).toEqual(["CLOSED", "", "invalid: subscription id must be a non-empty string"]);
+    expect(await count(client, "bad", [])).toEqual(["CLOSED", "bad", "invalid: filters must be objects"]);
+  });
+
+  it("with restricted replies, counts protected kinds only for the caller's own pubkeys", async () => {
+    const client = await connect(restricted.url);
+    const key = generateSecretKey();
+    await client.authenticate(key, restricted.url);
+    const req = sign({ kind: KIND_PRICE_REQ, content: JSON.stringify({ pair: "BTC-USD" }) }, key);
+    client.send("REQ", "reply", { kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [req.id] });
+    await client.publish(req);
+    await client.next((m) => m[0] === "EVENT" && m[1] === "reply");
+
+    const restrictedReason = "restricted: price responses can only be counted for your authenticated pubkey";
+    expect(await count(client, "unscoped", { kinds: [KIND_PRICE_RES] })).toEqual(["CLOSED", "unscoped", restrictedReason]);
+    expect(await count(client, "kindless", { "#e": [req.id] })).toEqual(["CLOSED", "kindless", restrictedReason]);
+    expect(await count(client, "other", { kinds: [KIND_PRICE_RES], "#p": ["f".repeat(64)] })).toEqual(["CLOSED", "other", restrictedReason]);
+    expect(await count(client, "own", { kinds: [KIND_PRICE_RES], "#p": [req.pubkey] })).toEqual(["COUNT", "own", { count: 1 }]);
+    // Filters that can't match protected kinds need no scoping.
+    expect(await count(client, "requests", { kinds: [KIND_PRICE_REQ] })).toEqual(["COUNT", "requests", { count: 1 }]);
+  });
+});
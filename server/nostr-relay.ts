@@ -1,22 +1,48 @@
 import { WebSocketServer, WebSocket } from "ws";
-import { verifyEvent as nostrVerifyEvent, generateSecretKey, getPublicKey, finalizeEvent } from "nostr-tools";
+import { randomBytes } from "crypto";
+import { verifyEvent as nostrVerifyEvent, finalizeEvent } from "nostr-tools";
 import type { Server } from "http";
 import { log } from "./index";
-import { KIND_PRICE_REQ, KIND_PRICE_RES, KIND_PRICE_ERR, type NostrEvent, type PriceSample } from "@shared/schema";
-
-const MIN_QUORUM = Number(process.env.MIN_QUORUM ?? 3);
-const FETCH_TIMEOUT_MS = Number(process.env.FETCH_TIMEOUT_MS ?? 2500);
-const FETCH_RETRIES = Number(process.env.FETCH_RETRIES ?? 1);
-const CACHE_TTL_MS = Number(process.env.CACHE_TTL_MS ?? 2000);
+import { KIND_PRICE_REQ, KIND_PRICE_RES, KIND_PRICE_ERR, KIND_KEY_ROTATION, LABEL_PAIR, LABEL_SOURCE, priceTypeSchema, type NostrEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { loadRelayKeys, type RelayKeyPair } from "./relay-keys";
+import { priceSources, PRICE_SOURCE_MODE, startPriceStreams } from "./sources";
+import { normalizePair, resolvePrice, supportedPairs, syntheticPairs, type DispersionBounds, type QuoteResult } from "./oracle";
+import { eventAddress, isEphemeral, isExpired, isReplaceable, KIND_DELETION } from "./event-kinds";
+import { matchFilter, MAX_LIMIT, type NostrFilter } from "./nostr-filter";
+import { RateLimiter } from "./rate-limiter";
+import { startPrewarm } from "./prewarm";
+
+const REQUEST_MAXAGE_MS = 20_000;
 const MAX_REQUEST_MAXAGE_MS = Number(process.env.MAX_REQUEST_MAXAGE_MS ?? 60000);
+const REQUEST_DEADLINE_MS = Number(process.env.REQUEST_DEADLINE_MS ?? 5000);
+const MAX_REQUEST_DEADLINE_MS = Number(process.env.MAX_REQUEST_DEADLINE_MS ?? 15000);
+// Quote-currency size a depth_mid request fills against each book when it names none.
+const DEPTH_NOTIONAL = Number(process.env.DEPTH_NOTIONAL ?? 10000);
+const MAX_NOTIONAL = Number(process.env.MAX_NOTIONAL ?? 1_000_000);
 const MAX_EVENT_BYTES = Number(process.env.MAX_EVENT_BYTES ?? 64_000);
-const MAX_STORED_EVENTS = Number(process.env.MAX_STORED_EVENTS ?? 10_000);
 const RATE_IP_RPS = Number(process.env.RATE_IP_RPS ?? 3);
 const RATE_PUBKEY_RPS = Number(process.env.RATE_PUBKEY_RPS ?? 2);
 const RATE_BURST = Number(process.env.RATE_BURST ?? 10);
+const MAX_SUBSCRIPTIONS = Number(process.env.MAX_SUBSCRIPTIONS ?? 50);
+const MAX_FILTERS = Number(process.env.MAX_FILTERS ?? 10);
+const MAX_SUBID_LENGTH = 64;
+const RESTRICT_PRICE_RESPONSES = process.env.RESTRICT_PRICE_RESPONSES === "1";
+const AUTH_WINDOW_SEC = Number(process.env.AUTH_WINDOW_SEC ?? 600);
+const RELAY_URL = process.env.RELAY_URL ?? "";
+const MAX_EVENT_AGE_SEC = Number(process.env.MAX_EVENT_AGE_SEC ?? 0);
+const MAX_EVENT_FUTURE_SEC = Number(process.env.MAX_EVENT_FUTURE_SEC ?? 900);
+const PRICE_REQ_MAX_AGE_SEC = Number(process.env.PRICE_REQ_MAX_AGE_SEC ?? 300);
+const PRICE_RESPONSE_TTL_SEC = Number(process.env.PRICE_RESPONSE_TTL_SEC ?? 0);
+const SOURCE_PROBE_MS = Number(process.env.SOURCE_PROBE_MS ?? 5000);
+const EXPIRATION_SWEEP_MS = Number(process.env.EXPIRATION_SWEEP_MS ?? 60_000);
+
+const KIND_CLIENT_AUTH = 22242;
+const PROTECTED_KINDS = [KIND_PRICE_RES, KIND_PRICE_ERR];
 
 let RELAY_SECRET_KEY: Uint8Array | null = null;
 let RELAY_PUBKEY_HEX = "";
+let RELAY_PREVIOUS_KEY: RelayKeyPair | null = null;
 
 function nowSec(): number {
   return Math.floor(Date.now() / 1000);
@@ -30,6 +56,17 @@ function safeJsonParse(s: string): any {
   }
 }
 
+/** Keeps the positive numeric bounds of a request's `maxDispersion`; anything else is ignored. */
+function dispersionBounds(raw: unknown): DispersionBounds | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const bounds: DispersionBounds = {};
+  for (const key of ["spreadPct", "stddevPct", "confPct"] as const) {
+    const v = Number((raw as any)[key]);
+    if (Number.isFinite(v) && v > 0) bounds[key] = v;
+  }
+  return Object.keys(bounds).length ? bounds : undefined;
+}
+
 function getTag(evt: NostrEvent, name: string): string | null {
   for (const t of evt.tags ?? []) {
     if (t[0] === name && t[1]) return t[1];
@@ -37,6 +74,32 @@ function getTag(evt: NostrEvent, name: string): string | null {
   return null;
 }
 
+function getLabel(evt: NostrEvent, namespace: string): string | null {
+  for (const t of evt.tags ?? []) {
+    if (t[0] === "l" && t[2] === namespace && t[1]) return t[1];
+  }
+  return null;
+}
+
+/**
+ * Tags for a relay reply. 3800x kinds are addressable, so the request id doubles as the
+ * `d` tag to keep every reply at its own address; pair and sources are NIP-32 labels so
+ * they can be queried with single-letter `#l` filters. With PRICE_RESPONSE_TTL_SEC set,
+ * replies carry a NIP-40 expiration and disappear once the quote is stale.
+ */
+function replyTags(req: NostrEvent, topic: string, pair: string, sources: string[] = []): string[][] {
+  return [
+    ["d", req.id],
+    ["e", req.id, "reply"],
+    ["p", req.pubkey],
+    ["t", topic],
+    ["L", LABEL_PAIR],
+    ["l", pair, LABEL_PAIR],
+    ...(sources.length ? [["L", LABEL_SOURCE], ...sources.map((s) => ["l", s, LABEL_SOURCE])] : []),
+    ...(PRICE_RESPONSE_TTL_SEC > 0 ? [["expiration", String(nowSec() + PRICE_RESPONSE_TTL_SEC)]] : []),
+  ];
+}
+
 function verifyEvent(evt: any): boolean {
   if (!evt || typeof evt !== "object") {
     log("verifyEvent: not an object", "nostr");
@@ -59,8 +122,8 @@ function verifyEvent(evt: any): boolean {
   }
 }
 
-function signEvent(params: { kind: number; tags: string[][]; content: string }): NostrEvent {
-  if (!RELAY_SECRET_KEY) {
+function signEvent(params: { kind: number; tags: string[][]; content: string }, secretKey = RELAY_SECRET_KEY): NostrEvent {
+  if (!secretKey) {
     throw new Error("Relay secret key not initialized");
   }
   const created_at = nowSec();
@@ -70,232 +133,242 @@ function signEvent(params: { kind: number; tags: string[][]; content: string }):
     tags: params.tags,
     content: params.content,
   };
-  const signedEvent = finalizeEvent(eventTemplate, RELAY_SECRET_KEY);
+  const signedEvent = finalizeEvent(eventTemplate, secretKey);
   return signedEvent as unknown as NostrEvent;
 }
 
-function median(values: number[]): number {
-  const arr = [...values].sort((a, b) => a - b);
-  const mid = Math.floor(arr.length / 2);
-  return arr.length % 2 === 0 ? (arr[mid - 1] + arr[mid]) / 2 : arr[mid];
-}
-
-function mean(values: number[]): number {
-  return values.reduce((a, b) => a + b, 0) / values.length;
-}
+const ipLimiter = new RateLimiter(RATE_IP_RPS, RATE_BURST);
+const pubLimiter = new RateLimiter(RATE_PUBKEY_RPS, RATE_BURST);
 
-function aggregate(samples: PriceSample[], method: string): { value: number; method: string; used: PriceSample[] } {
-  const values = samples.map((s) => s.value);
-  if (!values.length) throw new Error("no samples");
+function ensureRelayKeys(): void {
+  if (RELAY_SECRET_KEY && RELAY_PUBKEY_HEX) return;
 
-  if (method === "trimmed_mean" && samples.length >= 5) {
-    const sorted = [...samples].sort((a, b) => a.value - b.value);
-    const used = sorted.slice(1, -1);
-    return { value: mean(used.map((s) => s.value)), method: "trimmed_mean", used };
-  }
+  const keys = loadRelayKeys();
+  RELAY_SECRET_KEY = keys.current.secretKey;
+  RELAY_PUBKEY_HEX = keys.current.pubkey;
+  RELAY_PREVIOUS_KEY = keys.previous;
 
-  if (samples.length >= 3) {
-    return { value: median(values), method: "median", used: samples };
+  if (keys.ephemeral) {
+    log("No RELAY_PRIVKEY_HEX or RELAY_KEYFILE set; generated a throwaway relay keypair", "nostr");
+  } else {
+    log("Loaded relay keypair from configuration", "nostr");
   }
-
-  return { value: mean(values), method: "mean", used: samples };
+  log(`RELAY_PUBKEY_HEX=${RELAY_PUBKEY_HEX}`, "nostr");
+  if (RELAY_PREVIOUS_KEY) log(`Rotating away from ${RELAY_PREVIOUS_KEY.pubkey}`, "nostr");
 }
 
-class RateLimiter {
-  buckets = new Map<string, { tokens: number; last: number }>();
-  constructor(private rps: number, private burst: number) {}
-
-  allow(key: string, nowMs = Date.now()): boolean {
-    const b = this.buckets.get(key) ?? { tokens: this.burst, last: nowMs };
-    const elapsed = (nowMs - b.last) / 1000;
-    b.last = nowMs;
-    b.tokens = Math.min(this.burst, b.tokens + elapsed * this.rps);
-    if (b.tokens < 1) {
-      this.buckets.set(key, b);
-      return false;
-    }
-    b.tokens -= 1;
-    this.buckets.set(key, b);
-    return true;
-  }
+/**
+ * Publishes a kind-38003 announcement signed by the previous key that names the current
+ * one, so consumers pinned to the old pubkey can follow the rotation. Addressed by the
+ * new pubkey, so restarting with the same pair doesn't publish it twice.
+ */
+async function announceKeyRotation(): Promise<void> {
+  const previous = RELAY_PREVIOUS_KEY;
+  if (!previous) return;
+
+  const existing = await storage.queryEvents([{ kinds: [KIND_KEY_ROTATION], authors: [previous.pubkey], "#d": [RELAY_PUBKEY_HEX], limit: 1 }]);
+  if (existing.length) return;
+
+  const announcement = signEvent(
+    {
+      kind: KIND_KEY_ROTATION,
+      tags: [
+        ["d", RELAY_PUBKEY_HEX],
+        ["p", RELAY_PUBKEY_HEX],
+        ["t", "key-rotation"],
+      ],
+      content: JSON.stringify({ previous: previous.pubkey, current: RELAY_PUBKEY_HEX, rotated_at: nowSec() }),
+    },
+    previous.secretKey,
+  );
+  await publishEvent(announcement);
+  log(`Published key rotation ${previous.pubkey.slice(0, 8)}... -> ${RELAY_PUBKEY_HEX.slice(0, 8)}...`, "nostr");
 }
 
-const ipLimiter = new RateLimiter(RATE_IP_RPS, RATE_BURST);
-const pubLimiter = new RateLimiter(RATE_PUBKEY_RPS, RATE_BURST);
-
-let priceCache: { tsMs: number; samples: PriceSample[] } | null = null;
-
-function cacheGet(): { tsMs: number; samples: PriceSample[]; ageMs: number } | null {
-  if (!priceCache) return null;
-  const ageMs = Date.now() - priceCache.tsMs;
-  if (ageMs > CACHE_TTL_MS) return null;
-  return { ...priceCache, ageMs };
+export function getRelayInfo() {
+  return {
+    name: "BTC Average Price Relay",
+    description: "Research relay: queries BTC price from multiple public sources and emits signed responses.",
+    pubkey: RELAY_PUBKEY_HEX,
+    previous_pubkeys: RELAY_PREVIOUS_KEY ? [RELAY_PREVIOUS_KEY.pubkey] : [],
+    contact: "nostr:research-demo",
+    supported_nips: [1, 9, 11, 22, 40, 42, 45],
+    software: "btc-price-nostr-relay",
+    version: "1.1.0",
+    price_sources: priceSources.enabledIds(),
+    price_source_mode: PRICE_SOURCE_MODE,
+    source_health: priceSources.healthReport(),
+    supported_pairs: supportedPairs(),
+    synthetic_pairs: syntheticPairs(),
+    limitations: {
+      max_message_length: MAX_EVENT_BYTES,
+      max_subscriptions: MAX_SUBSCRIPTIONS,
+      max_filters: MAX_FILTERS,
+      max_limit: MAX_LIMIT,
+      max_subid_length: MAX_SUBID_LENGTH,
+      auth_required: false,
+      ...(MAX_EVENT_AGE_SEC > 0 ? { created_at_lower_limit: MAX_EVENT_AGE_SEC } : {}),
+      created_at_upper_limit: MAX_EVENT_FUTURE_SEC,
+    },
+  };
 }
 
-function cacheSet(samples: PriceSample[]): void {
-  priceCache = { tsMs: Date.now(), samples };
+interface ExtendedWebSocket extends WebSocket {
+  subs: Map<string, NostrFilter[]>;
+  /** Ids delivered live to a subscription whose stored events are still being sent, so they aren't sent twice. */
+  beforeEose: Map<string, Set<string>>;
+  ip: string;
+  host: string;
+  challenge: string;
+  authed: Set<string>;
 }
 
-async function fetchJson(url: string, timeoutMs: number): Promise<any> {
-  const ctrl = new AbortController();
-  const t = setTimeout(() => ctrl.abort(), timeoutMs);
-  try {
-    const r = await fetch(url, { signal: ctrl.signal, headers: { accept: "application/json" } });
-    if (!r.ok) throw new Error(`HTTP ${r.status}`);
-    return await r.json();
-  } finally {
-    clearTimeout(t);
-  }
-}
+let wss: WebSocketServer | null = null;
 
-async function withRetries<T>(fn: () => Promise<T>, retries: number): Promise<T> {
-  let lastErr: any;
-  for (let i = 0; i <= retries; i++) {
-    try {
-      return await fn();
-    } catch (e) {
-      lastErr = e;
-    }
+function send(ws: WebSocket, msg: any): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(msg));
   }
-  throw lastErr;
 }
 
-async function fetchPrice(source: string): Promise<PriceSample> {
-  const ts = Date.now();
-
-  return withRetries(async () => {
-    switch (source) {
-      case "coinbase": {
-        const j = await fetchJson("https://api.exchange.coinbase.com/products/BTC-USD/ticker", FETCH_TIMEOUT_MS);
-        const price = Number(j.price);
-        if (!Number.isFinite(price)) throw new Error("bad price");
-        return { source, value: price, ts };
-      }
-      case "kraken": {
-        const j = await fetchJson("https://api.kraken.com/0/public/Ticker?pair=XBTUSD", FETCH_TIMEOUT_MS);
-        const obj = j?.result?.XXBTZUSD;
-        const price = Number(obj?.c?.[0]);
-        if (!Number.isFinite(price)) throw new Error("bad price");
-        return { source, value: price, ts };
-      }
-      case "coingecko": {
-        const j = await fetchJson("https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd", FETCH_TIMEOUT_MS);
-        const price = Number(j?.bitcoin?.usd);
-        if (!Number.isFinite(price)) throw new Error("bad price");
-        return { source, value: price, ts };
-      }
-      case "bitstamp": {
-        const j = await fetchJson("https://www.bitstamp.net/api/v2/ticker/btcusd", FETCH_TIMEOUT_MS);
-        const price = Number(j?.last);
-        if (!Number.isFinite(price)) throw new Error("bad price");
-        return { source, value: price, ts };
-      }
-      default:
-        throw new Error("unknown source");
+function deliver(ws: ExtendedWebSocket, evt: NostrEvent): void {
+  if (!ws.subs || !canReceive(ws, evt)) return;
+  ws.subs.forEach((filters, subId) => {
+    if (filters.some((f) => matchFilter(evt, f))) {
+      send(ws, ["EVENT", subId, evt]);
+      ws.beforeEose.get(subId)?.add(evt.id);
     }
-  }, FETCH_RETRIES);
+  });
 }
 
-const ALL_SOURCES = ["coinbase", "kraken", "coingecko", "bitstamp"];
-
-const events: NostrEvent[] = [];
+function fanOut(evt: NostrEvent): void {
+  if (!wss) return;
+  wss.clients.forEach((client) => deliver(client as ExtendedWebSocket, evt));
+}
 
-function storeEvent(evt: NostrEvent): void {
-  events.push(evt);
-  if (events.length > MAX_STORED_EVENTS) events.splice(0, events.length - MAX_STORED_EVENTS);
+async function publishEvent(evt: NostrEvent): Promise<void> {
+  try {
+    await storage.saveEvent(evt);
+  } catch (e: any) {
+    log(`Failed to persist event ${evt.id.slice(0, 8)}: ${e.message}`, "nostr");
+  }
+  fanOut(evt);
 }
 
-interface NostrFilter {
-  ids?: string[];
-  kinds?: number[];
-  authors?: string[];
-  since?: number;
-  until?: number;
-  limit?: number;
-  [key: string]: any;
+/** NIP-22 style created_at window; price requests get a tighter bound so captured ones can't be replayed later. */
+function checkCreatedAt(evt: NostrEvent): string | null {
+  const now = nowSec();
+  if (evt.created_at > now + MAX_EVENT_FUTURE_SEC) return "invalid: event created_at is too far in the future";
+  const maxAge = evt.kind === KIND_PRICE_REQ ? PRICE_REQ_MAX_AGE_SEC : MAX_EVENT_AGE_SEC;
+  if (maxAge > 0 && evt.created_at < now - maxAge) return "invalid: event created_at is too old";
+  return null;
 }
 
-function matchFilter(evt: NostrEvent, f: NostrFilter): boolean {
-  if (f.ids && Array.isArray(f.ids) && !f.ids.includes(evt.id)) return false;
-  if (f.kinds && Array.isArray(f.kinds) && !f.kinds.includes(evt.kind)) return false;
-  if (f.authors && Array.isArray(f.authors) && !f.authors.includes(evt.pubkey)) return false;
-  if (f.since && evt.created_at < f.since) return false;
-  if (f.until && evt.created_at > f.until) return false;
-
-  for (const k of Object.keys(f)) {
-    if (!k.startsWith("#")) continue;
-    const tagName = k.slice(1);
-    const want = f[k] ?? [];
-    const have = (evt.tags ?? []).filter((t) => t[0] === tagName).map((t) => t[1]);
-    if (!want.some((x: string) => have.includes(x))) return false;
-  }
+/** NIP-09: true when the author already published a deletion covering this event. */
+async function isDeleted(evt: NostrEvent): Promise<boolean> {
+  if (evt.kind === KIND_DELETION) return false;
+  const byId = await storage.queryEvents([{ kinds: [KIND_DELETION], authors: [evt.pubkey], "#e": [evt.id], limit: 1 }]);
+  if (byId.length) return true;
 
-  return true;
+  const address = eventAddress(evt);
+  if (!address) return false;
+  const byAddress = await storage.queryEvents([{ kinds: [KIND_DELETION], authors: [evt.pubkey], "#a": [address], since: evt.created_at, limit: 1 }]);
+  return byAddress.length > 0;
 }
 
-function queryEvents(filters: NostrFilter[]): NostrEvent[] {
-  const out: NostrEvent[] = [];
-  for (const f of filters) {
-    const limit = Math.min(Number(f.limit ?? 200), 2000);
-    const matched: NostrEvent[] = [];
-    for (let i = events.length - 1; i >= 0 && matched.length < limit; i--) {
-      const e = events[i];
-      if (matchFilter(e, f)) matched.push(e);
-    }
-    out.push(...matched);
+/** NIP-09: removes the events a kind-5 request names, as long as they belong to its author. */
+async function applyDeletion(del: NostrEvent): Promise<number> {
+  const ids = del.tags.filter((t) => t[0] === "e" && t[1]).map((t) => t[1]);
+  // Without explicit limits the store would cap each filter at its default page size.
+  const filters: NostrFilter[] = ids.length ? [{ ids, authors: [del.pubkey], limit: ids.length }] : [];
+
+  for (const t of del.tags) {
+    if (t[0] !== "a" || !t[1]) continue;
+    const [kind, pubkey, ...d] = t[1].split(":");
+    if (pubkey !== del.pubkey || !Number.isFinite(Number(kind))) continue;
+    const target: NostrFilter = { kinds: [Number(kind)], authors: [pubkey], until: del.created_at, limit: MAX_LIMIT };
+    if (!isReplaceable(Number(kind))) target["#d"] = [d.join(":")];
+    filters.push(target);
   }
-  return out;
-}
+  if (!filters.length) return 0;
 
-function ensureRelayKeys(): void {
-  if (RELAY_SECRET_KEY && RELAY_PUBKEY_HEX) return;
+  const targets = (await storage.queryEvents(filters)).filter((e) => e.kind !== KIND_DELETION);
+  return storage.deleteEvents(targets.map((e) => e.id));
+}
 
-  RELAY_SECRET_KEY = generateSecretKey();
-  RELAY_PUBKEY_HEX = getPublicKey(RELAY_SECRET_KEY);
+/** Re-sends the reply already signed for a price request, for clients retrying the same event. */
+async function replayPriceReply(ws: ExtendedWebSocket, requestId: string): Promise<void> {
+  const [reply] = await storage.queryEvents([{ kinds: [KIND_PRICE_RES, KIND_PRICE_ERR], "#e": [requestId], limit: 1 }]);
+  if (reply) deliver(ws, reply);
+}
 
-  log("Generated relay keypair", "nostr");
-  log(`RELAY_PUBKEY_HEX=${RELAY_PUBKEY_HEX}`, "nostr");
+/** With RESTRICT_PRICE_RESPONSES, oracle replies only reach the pubkey they are addressed to. */
+function canReceive(ws: ExtendedWebSocket, evt: NostrEvent): boolean {
+  if (!RESTRICT_PRICE_RESPONSES || !PROTECTED_KINDS.includes(evt.kind)) return true;
+  const recipient = getTag(evt, "p");
+  return !!recipient && ws.authed.has(recipient);
 }
 
-export function getRelayInfo() {
-  return {
-    name: "BTC Average Price Relay",
-    description: "Research relay: queries BTC price from multiple public sources and emits signed responses.",
-    pubkey: RELAY_PUBKEY_HEX,
-    contact: "nostr:research-demo",
-    supported_nips: [1, 11],
-    software: "btc-price-nostr-relay",
-    version: "1.1.0",
-    limitations: {
-      max_message_length: MAX_EVENT_BYTES,
-      max_subscriptions: 50,
-      max_filters: 10,
-      max_limit: 2000,
-    },
-  };
+function requestsProtectedKinds(filters: NostrFilter[]): boolean {
+  return filters.some((f) => Array.isArray(f.kinds) && f.kinds.some((k) => PROTECTED_KINDS.includes(k)));
 }
 
-interface ExtendedWebSocket extends WebSocket {
-  subs: Map<string, NostrFilter[]>;
-  ip: string;
+/** True when a filter can match protected kinds: it names one, or names no kinds at all. */
+function mayMatchProtectedKinds(f: NostrFilter): boolean {
+  return !Array.isArray(f.kinds) || requestsProtectedKinds([f]);
 }
 
-let wss: WebSocketServer | null = null;
+/** Validates a NIP-42 kind-22242 event against the challenge issued to this connection. */
+function checkAuthEvent(ws: ExtendedWebSocket, evt: NostrEvent): string | null {
+  if (evt.kind !== KIND_CLIENT_AUTH) return `invalid: auth event must be kind ${KIND_CLIENT_AUTH}`;
+  if (Math.abs(nowSec() - evt.created_at) > AUTH_WINDOW_SEC) return "invalid: auth event created_at is too far from now";
+  if (getTag(evt, "challenge") !== ws.challenge) return "invalid: challenge mismatch";
 
-function send(ws: WebSocket, msg: any): void {
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify(msg));
+  const relay = getTag(evt, "relay");
+  if (!relay) return "invalid: missing relay tag";
+  try {
+    const url = new URL(relay);
+    const expected = RELAY_URL ? new URL(RELAY_URL).host : ws.host;
+    if (url.host !== expected) return "invalid: relay url mismatch";
+  } catch {
+    return "invalid: malformed relay url";
   }
+  return null;
 }
 
-function broadcast(msg: any): void {
-  if (!wss) return;
-  const s = JSON.stringify(msg);
-  for (const client of wss.clients) {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(s);
-    }
+/** Returns a NIP-01 `CLOSED` reason when a REQ breaks the advertised limitations, or null. */
+function checkFilters(ws: ExtendedWebSocket, subId: unknown, filters: unknown[]): string | null {
+  if (typeof subId !== "string" || !subId.length) return "invalid: subscription id must be a non-empty string";
+  if (subId.length > MAX_SUBID_LENGTH) return `invalid: subscription id longer than ${MAX_SUBID_LENGTH} characters`;
+  if (!filters.length) return "invalid: at least one filter is required";
+  if (filters.length > MAX_FILTERS) return `invalid: too many filters (max ${MAX_FILTERS})`;
+  if (filters.some((f) => !f || typeof f !== "object" || Array.isArray(f))) return "invalid: filters must be objects";
+  if (RESTRICT_PRICE_RESPONSES && !ws.authed.size && requestsProtectedKinds(filters as NostrFilter[])) {
+    return "auth-required: price responses are only delivered to the authenticated requester";
   }
+  return null;
+}
+
+function checkReq(ws: ExtendedWebSocket, subId: unknown, filters: unknown[]): string | null {
+  const rejection = checkFilters(ws, subId, filters);
+  if (rejection) return rejection;
+  if (!ws.subs.has(subId as string) && ws.subs.size >= MAX_SUBSCRIPTIONS) return `rate-limited: too many subscriptions (max ${MAX_SUBSCRIPTIONS})`;
+  return null;
+}
+
+/**
+ * NIP-45: with restricted responses, protected kinds may only be counted for the caller's own
+ * pubkeys. Counts aren't filtered per event like REQ deliveries, so a filter without `kinds`
+ * must be scoped by `#p` too.
+ */
+function checkCount(ws: ExtendedWebSocket, subId: unknown, filters: unknown[]): string | null {
+  const rejection = checkFilters(ws, subId, filters);
+  if (rejection) return rejection;
+  if (!RESTRICT_PRICE_RESPONSES) return null;
+  const scoped = (filters as NostrFilter[]).every(
+    (f) => !mayMatchProtectedKinds(f) || (Array.isArray(f["#p"]) && f["#p"].length > 0 && f["#p"].every((p: string) => ws.authed.has(p))),
+  );
+  return scoped ? null : "restricted: price responses can only be counted for your authenticated pubkey";
 }
 
 export function setupNostrRelay(httpServer: Server): void {
@@ -304,11 +377,28 @@ export function setupNostrRelay(httpServer: Server): void {
   wss = new WebSocketServer({ server: httpServer, path: "/ws" });
   log("WebSocket relay ready at /ws", "nostr");
 
+  announceKeyRotation().catch((e: any) => log(`Key rotation announcement failed: ${e.message}`, "nostr"));
+  startPrewarm();
+  startPriceStreams((msg) => log(msg, "stream"));
+  setInterval(() => priceSources.probeOpenCircuits(), SOURCE_PROBE_MS).unref();
+
+  setInterval(() => {
+    storage
+      .deleteExpired(nowSec())
+      .then((n) => n && log(`Swept ${n} expired event(s)`, "nostr"))
+      .catch((e: any) => log(`Expiration sweep failed: ${e.message}`, "nostr"));
+  }, EXPIRATION_SWEEP_MS).unref();
+
   wss.on("connection", (ws: WebSocket, req) => {
     const extWs = ws as ExtendedWebSocket;
     extWs.subs = new Map();
+    extWs.beforeEose = new Map();
     extWs.ip = req.socket.remoteAddress ?? "unknown";
+    extWs.host = req.headers.host ?? "";
+    extWs.challenge = randomBytes(16).toString("hex");
+    extWs.authed = new Set();
     send(ws, ["NOTICE", "connected"]);
+    send(ws, ["AUTH", extWs.challenge]);
     log(`Client connected from ${extWs.ip}`, "nostr");
   });
 
@@ -336,126 +426,145 @@ export function setupNostrRelay(httpServer: Server): void {
           return;
         }
 
+        if (evt.kind === KIND_CLIENT_AUTH) {
+          send(ws, ["OK", evt.id, false, "invalid: auth events must be sent with AUTH"]);
+          return;
+        }
+
+        const tooOld = checkCreatedAt(evt);
+        if (tooOld) {
+          send(ws, ["OK", evt.id, false, tooOld]);
+          return;
+        }
+
+        let duplicate: boolean;
+        try {
+          duplicate = !!(await storage.getEvent(evt.id));
+        } catch (e: any) {
+          log(`Failed to look up event ${evt.id.slice(0, 8)}: ${e.message}`, "nostr");
+          send(ws, ["OK", evt.id, false, "error: could not check for duplicates"]);
+          return;
+        }
+        if (duplicate) {
+          send(ws, ["OK", evt.id, true, "duplicate: already have this event"]);
+          if (evt.kind === KIND_PRICE_REQ) await replayPriceReply(extWs, evt.id).catch(() => {});
+          return;
+        }
+
         if (!ipLimiter.allow(`ip:${extWs.ip}`)) {
-          send(ws, ["OK", evt.id, false, "rate limited (ip)"]);
+          send(ws, ["OK", evt.id, false, "rate-limited: too many events from this ip"]);
           return;
         }
         if (!pubLimiter.allow(`pub:${evt.pubkey}`)) {
-          send(ws, ["OK", evt.id, false, "rate limited (pubkey)"]);
+          send(ws, ["OK", evt.id, false, "rate-limited: too many events from this pubkey"]);
           return;
         }
 
-        storeEvent(evt);
-        send(ws, ["OK", evt.id, true, "accepted"]);
-
-        if (evt.kind === KIND_PRICE_REQ) {
-          const body = safeJsonParse(evt.content) ?? {};
-          const pair = body.pair ?? getTag(evt, "pair") ?? "BTC-USD";
-          const method = String(body.method ?? "trimmed_mean");
-          const maxAgeMsReq = Number(body.maxAgeMs ?? 20_000);
-          const maxAgeMs = Math.min(maxAgeMsReq, MAX_REQUEST_MAXAGE_MS);
+        if (isExpired(evt, nowSec())) {
+          send(ws, ["OK", evt.id, false, "invalid: event has expired"]);
+          return;
+        }
 
-          log(`Price request from ${evt.pubkey.slice(0, 8)}... pair=${pair} method=${method}`, "nostr");
+        if (isEphemeral(evt.kind)) {
+          send(ws, ["OK", evt.id, true, ""]);
+          fanOut(evt);
+          return;
+        }
 
-          if (pair !== "BTC-USD") {
-            const errEvt = await signEvent({
-              kind: KIND_PRICE_ERR,
-              tags: [
-                ["e", evt.id, "reply"],
-                ["p", evt.pubkey],
-                ["t", "price-error"],
-                ["pair", pair],
-              ],
-              content: JSON.stringify({ error: "unsupported pair", pair }),
-            });
-            storeEvent(errEvt);
-            broadcast(["EVENT", errEvt]);
+        let saved: boolean;
+        try {
+          if (await isDeleted(evt)) {
+            send(ws, ["OK", evt.id, false, "blocked: event was deleted by its author"]);
             return;
           }
+          saved = await storage.saveEvent(evt);
+        } catch (e: any) {
+          log(`Failed to persist event ${evt.id.slice(0, 8)}: ${e.message}`, "nostr");
+          send(ws, ["OK", evt.id, false, "error: could not save event"]);
+          return;
+        }
+        if (!saved) {
+          send(ws, ["OK", evt.id, true, "duplicate: already have this event or a newer version"]);
+          return;
+        }
+        send(ws, ["OK", evt.id, true, "accepted"]);
+        fanOut(evt);
 
-          const cached = cacheGet();
-          if (cached && cached.ageMs <= maxAgeMs) {
-            const { value, method: usedMethod, used } = aggregate(cached.samples, method);
-            const resp = await signEvent({
-              kind: KIND_PRICE_RES,
-              tags: [
-                ["e", evt.id, "reply"],
-                ["p", evt.pubkey],
-                ["t", "price"],
-                ["pair", pair],
-                ...used.map((s) => ["src", s.source]),
-              ],
-              content: JSON.stringify({
-                pair,
-                ts: Date.now(),
-                value,
-                method: usedMethod,
-                sources_used: used.map((s) => s.source),
-                samples: used,
-                cache: { hit: true, ageMs: cached.ageMs },
-              }),
+        if (evt.kind === KIND_DELETION) {
+          const removed = await applyDeletion(evt).catch((e: any) => {
+            log(`Deletion ${evt.id.slice(0, 8)} failed: ${e.message}`, "nostr");
+            return 0;
+          });
+          if (removed) log(`Deleted ${removed} event(s) for ${evt.pubkey.slice(0, 8)}...`, "nostr");
+          return;
+        }
+
+        if (evt.kind === KIND_PRICE_REQ) {
+          const body = safeJsonParse(evt.content) ?? {};
+          const rawPair = body.pair ?? getLabel(evt, LABEL_PAIR) ?? getTag(evt, "pair") ?? "BTC-USD";
+          const pair = normalizePair(rawPair) ?? String(rawPair);
+          const method = String(body.method ?? "trimmed_mean");
+          const maxAgeMsReq = Number(body.maxAgeMs ?? REQUEST_MAXAGE_MS);
+          const maxAgeMs = Math.min(Number.isFinite(maxAgeMsReq) && maxAgeMsReq > 0 ? maxAgeMsReq : REQUEST_MAXAGE_MS, MAX_REQUEST_MAXAGE_MS);
+          const deadlineReq = Number(body.deadlineMs ?? REQUEST_DEADLINE_MS);
+          const deadlineMs = Math.min(Number.isFinite(deadlineReq) && deadlineReq > 0 ? deadlineReq : REQUEST_DEADLINE_MS, MAX_REQUEST_DEADLINE_MS);
+
+          const priceType = priceTypeSchema.safeParse(body.priceType ?? "last");
+          const notional = priceType.success && priceType.data === "depth_mid" ? Number(body.notional ?? DEPTH_NOTIONAL) : undefined;
+
+          log(`Price request from ${evt.pubkey.slice(0, 8)}... pair=${pair} method=${method} type=${body.priceType ?? "last"}`, "nostr");
+
+          let result: QuoteResult;
+          if (!priceType.success) {
+            result = { ok: false, failure: { error: "unsupported price type", pair, price_type: body.priceType, supported_price_types: priceTypeSchema.options } };
+          } else if (notional !== undefined && !(Number.isFinite(notional) && notional > 0 && notional <= MAX_NOTIONAL)) {
+            result = { ok: false, failure: { error: "invalid notional", pair, notional: body.notional, max: MAX_NOTIONAL } };
+          } else {
+            result = await resolvePrice(pair, {
+              method,
+              maxAgeMs,
+              sources: body.sources,
+              maxDispersion: dispersionBounds(body.maxDispersion),
+              deadlineAt: Date.now() + deadlineMs,
+              priceType: priceType.data,
+              notional,
             });
-            storeEvent(resp);
-            broadcast(["EVENT", resp]);
-            log(`Price response (cached): $${value.toFixed(2)}`, "nostr");
-            return;
           }
-
-          const wantedSources = Array.isArray(body.sources) ? body.sources.filter((s: string) => ALL_SOURCES.includes(s)) : ALL_SOURCES;
-          const sources = wantedSources.length ? wantedSources : ALL_SOURCES;
-
-          const results = await Promise.allSettled(sources.map((s: string) => fetchPrice(s)));
-          const samples = results.filter((r): r is PromiseFulfilledResult<PriceSample> => r.status === "fulfilled").map((r) => r.value);
-
-          if (samples.length < MIN_QUORUM) {
+          if (!result.ok) {
             const errEvt = await signEvent({
               kind: KIND_PRICE_ERR,
-              tags: [
-                ["e", evt.id, "reply"],
-                ["p", evt.pubkey],
-                ["t", "price-error"],
-                ["pair", pair],
-              ],
-              content: JSON.stringify({
-                error: "insufficient quorum",
-                need: MIN_QUORUM,
-                got: samples.length,
-                sources_requested: sources,
-              }),
+              tags: replyTags(evt, "price-error", pair),
+              content: JSON.stringify(result.failure),
             });
-            storeEvent(errEvt);
-            broadcast(["EVENT", errEvt]);
-            log(`Price error: insufficient quorum (got ${samples.length}/${MIN_QUORUM})`, "nostr");
+            await publishEvent(errEvt);
+            log(`Price error: ${result.failure.error} for ${pair}`, "nostr");
             return;
           }
 
-          cacheSet(samples);
-
-          const { value, method: usedMethod, used } = aggregate(samples, method);
-
+          const { value, method: usedMethod, used, rejected, dispersion, cache, pending, derivation } = result.quote;
           const resp = await signEvent({
             kind: KIND_PRICE_RES,
-            tags: [
-              ["e", evt.id, "reply"],
-              ["p", evt.pubkey],
-              ["t", "price"],
-              ["pair", pair],
-              ...used.map((s) => ["src", s.source]),
-            ],
+            tags: replyTags(evt, "price", pair, used.map((s) => s.source)),
             content: JSON.stringify({
               pair,
               ts: Date.now(),
               value,
               method: usedMethod,
+              priceType: priceType.data,
+              ...(notional !== undefined ? { notional } : {}),
               sources_used: used.map((s) => s.source),
               samples: used,
-              cache: { hit: false, ageMs: 0 },
+              rejected,
+              dispersion,
+              cache,
+              pending,
+              ...(derivation ? { derivation } : {}),
             }),
           });
 
-          storeEvent(resp);
-          broadcast(["EVENT", resp]);
-          log(`Price response: $${value.toFixed(2)} via ${usedMethod}`, "nostr");
+          await publishEvent(resp);
+          if (rejected.length) log(`Rejected outliers for ${pair}: ${rejected.map((s) => s.source).join(", ")}`, "nostr");
+          log(`Price response${cache.hit ? " (cached)" : ""}: ${pair} ${value.toFixed(2)} via ${usedMethod}`, "nostr");
         }
 
         return;
@@ -464,18 +573,78 @@ export function setupNostrRelay(httpServer: Server): void {
       if (type === "REQ") {
         const subId = msg[1];
         const filters = msg.slice(2) as NostrFilter[];
-        extWs.subs.set(subId, filters);
 
-        const found = queryEvents(filters);
-        for (const e of found) send(ws, ["EVENT", subId, e]);
+        const rejection = checkReq(extWs, subId, filters);
+        if (rejection) {
+          send(ws, ["CLOSED", typeof subId === "string" ? subId : "", rejection]);
+          return;
+        }
+        // Registered before the query so nothing saved meanwhile is missed.
+        const sentLive = new Set<string>();
+        extWs.subs.set(subId, filters);
+        extWs.beforeEose.set(subId, sentLive);
+
+        let found: NostrEvent[];
+        try {
+          found = await storage.queryEvents(filters);
+        } catch (e: any) {
+          log(`Query failed for ${subId}: ${e.message}`, "nostr");
+          extWs.subs.delete(subId);
+          extWs.beforeEose.delete(subId);
+          send(ws, ["CLOSED", subId, "error: could not query events"]);
+          return;
+        }
+        if (extWs.beforeEose.get(subId) === sentLive) extWs.beforeEose.delete(subId);
+        const now = nowSec();
+        for (const e of found) {
+          if (canReceive(extWs, e) && !isExpired(e, now) && !sentLive.has(e.id)) send(ws, ["EVENT", subId, e]);
+        }
 
         send(ws, ["EOSE", subId]);
         return;
       }
 
+      if (type === "COUNT") {
+        const subId = msg[1];
+        const filters = msg.slice(2) as NostrFilter[];
+
+        const rejection = checkCount(extWs, subId, filters);
+        if (rejection) {
+          send(ws, ["CLOSED", typeof subId === "string" ? subId : "", rejection]);
+          return;
+        }
+
+        try {
+          const count = await storage.countEvents(filters, nowSec());
+          send(ws, ["COUNT", subId, { count }]);
+        } catch (e: any) {
+          log(`Count failed for ${subId}: ${e.message}`, "nostr");
+          send(ws, ["CLOSED", subId, "error: could not count events"]);
+        }
+        return;
+      }
+
+      if (type === "AUTH") {
+        const evt = msg[1] as NostrEvent;
+        if (!verifyEvent(evt)) {
+          send(ws, ["OK", evt?.id ?? "", false, "invalid: bad sig or id"]);
+          return;
+        }
+        const rejection = checkAuthEvent(extWs, evt);
+        if (rejection) {
+          send(ws, ["OK", evt.id, false, rejection]);
+          return;
+        }
+        extWs.authed.add(evt.pubkey);
+        log(`Client ${extWs.ip} authenticated as ${evt.pubkey.slice(0, 8)}...`, "nostr");
+        send(ws, ["OK", evt.id, true, ""]);
+        return;
+      }
+
       if (type === "CLOSE") {
         const subId = msg[1];
         extWs.subs.delete(subId);
+        extWs.beforeEose.delete(subId);
         return;
       }
     });
@@ -0,0 +1,192 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PriceSource } from "./sources/types";
+
+vi.mock("./sources", async () => {
+  const { SourceRegistry } = await import("./sources/registry");
+  const priceSources = new SourceRegistry({
+    timeoutMs: 5000,
+    retries: 0,
+    healthWindow: 10,
+    circuitFailures: 3,
+    circuitOpenMs: 1000,
+    circuitMaxOpenMs: 3000,
+    maxStalenessMs: 60_000,
+  });
+  return { priceSources };
+});
+
+import { priceSources } from "./sources";
+import { resolvePrice, supportedPairs, syntheticPairs, type QuoteOptions } from "./oracle";
+
+interface Venue {
+  price: number;
+  delayMs?: number;
+  volume?: number;
+}
+
+let markets = 0;
+
+/**
+ * Registers one source per venue quoting `pair`, by default a pair of its own so tests never
+ * share cached samples. Returns the pair and the sources, which count their fetches.
+ */
+function market(venues: Venue[], pair = `T${++markets}-USD`): { pair: string; sources: (PriceSource & { calls: number })[] } {
+  const sources = venues.map((venue, i) => {
+    const source = {
+      id: `${pair}:${String.fromCharCode(97 + i)}`,
+      pairs: [pair],
+      weight: 1,
+      calls: 0,
+      fetch: async () => {
+        source.calls++;
+        await new Promise((resolve) => setTimeout(resolve, venue.delayMs ?? 10));
+        return { price: venue.price, volume: venue.volume };
+      },
+      parse: (raw: any) => ({ price: raw.price, volume: raw.volume }),
+    };
+    priceSources.register(source);
+    return source;
+  });
+  return { pair, sources };
+}
+
+function options(fields: Partial<QuoteOptions> = {}): QuoteOptions {
+  return { method: "median", maxAgeMs: 10_000, deadlineAt: Date.now() + 2000, priceType: "last", ...fields };
+}
+
+describe("gathering samples", () => {
+  it("answers once quorum is in, leaving slower sources pending", async () => {
+    const { pair, sources } = market([{ price: 100 }, { price: 100 }, { price: 100 }, { price: 100, delayMs: 500 }]);
+    const started = Date.now();
+
+    const result = await resolvePrice(pair, options());
+
+    expect(Date.now() - started).toBeLessThan(400);
+    expect(result).toMatchObject({ ok: true, quote: { value: 100, pending: [sources[3].id] } });
+  });
+
+  it("gives up on slow sources at the deadline", async () => {
+    const { pair, sources } = market([{ price: 100 }, { price: 100 }, { price: 100, delayMs: 1000 }]);
+
+    const result = await resolvePrice(pair, options({ deadlineAt: Date.now() + 100 }));
+
+    expect(result).toMatchObject({ ok: false, failure: { error: "insufficient quorum", need: 3, got: 2, pending: [sources[2].id] } });
+  });
+
+  it("still fetches sources the cache is missing when cached samples already meet quorum", async () => {
+    const { pair, sources } = market([{ price: 100 }, { price: 100 }, { price: 100 }, { price: 100 }]);
+    const [a, b, c, d] = sources;
+    await resolvePrice(pair, options({ sources: [a.id, b.id, c.id] }));
+
+    const cached = await resolvePrice(pair, options());
+    expect(cached).toMatchObject({ ok: true, quote: { cache: { hit: true }, pending: [d.id] } });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const refreshed = await resolvePrice(pair, options());
+    expect(refreshed).toMatchObject({ ok: true, quote: { cache: { hit: true }, pending: [] } });
+    expect(refreshed.ok && refreshed.quote.used).toHaveLength(4);
+    expect(d.calls).toBe(1);
+  });
+
+  it("answers from exactly the sources a request names, cached or not", async () => {
+    const { pair, sources } = market([{ price: 100 }, { price: 100 }, { price: 100 }, { price: 100 }]);
+    const [a, b, c, d] = sources;
+    await resolvePrice(pair, options());
+    // Let the source the first quote didn't wait for land in the cache.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const result = await resolvePrice(pair, options({ sources: [b.id, c.id, d.id] }));
+
+    expect(result).toMatchObject({ ok: true, quote: { cache: { hit: true } } });
+    expect(result.ok && result.quote.used.map((s) => s.source)).toEqual([b.id, c.id, d.id]);
+    expect(a.calls).toBe(1);
+  });
+
+  it("fetches each source once for concurrent requests", async () => {
+    const { pair, sources } = market([{ price: 100 }, { price: 100 }, { price: 100 }]);
+
+    const results = await Promise.all([resolvePrice(pair, options()), resolvePrice(pair, options()), resolvePrice(pair, options())]);
+
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(sources.map((s) => s.calls)).toEqual([1, 1, 1]);
+  });
+
+  it("waits past an outlier for another answer", async () => {
+    const { pair } = market([{ price: 100 }, { price: 100.01 }, { price: 150 }, { price: 100.02, delayMs: 60 }]);
+
+    const result = await resolvePrice(pair, options());
+
+    expect(result.ok && result.quote.used.map((s) => s.value).sort()).toEqual([100, 100.01, 100.02]);
+    expect(result.ok && result.quote.rejected.map((s) => s.value)).toEqual([150]);
+  });
+
+  it("waits for enough venues reporting volume for a volume-weighted method", async () => {
+    const { pair, sources } = market([
+      { price: 100, volume: 1 },
+      { price: 100, volume: 1 },
+      { price: 100 },
+      { price: 100, volume: 2, delayMs: 60 },
+    ]);
+
+    const result = await resolvePrice(pair, options({ method: "vwap" }));
+
+    expect(result).toMatchObject({ ok: true, quote: { method: "vwap", pending: [] } });
+    expect(result.ok && result.quote.used.map((s) => s.source)).toEqual([sources[0].id, sources[1].id, sources[3].id]);
+  });
+});
+
+describe("pair quorum", () => {
+  it("needs MIN_QUORUM venues for a pair by default", async () => {
+    const { pair } = market([{ price: 100 }, { price: 100 }]);
+
+    expect(supportedPairs()).not.toContain(pair);
+    expect(await resolvePrice(pair, options())).toMatchObject({ ok: false, failure: { error: "unsupported pair" } });
+  });
+
+  it("quotes BTC-JPY from two venues", async () => {
+    market([{ price: 10_000_000 }, { price: 10_000_100 }], "BTC-JPY");
+
+    expect(supportedPairs()).toContain("BTC-JPY");
+    expect(await resolvePrice("BTC-JPY", options())).toMatchObject({ ok: true, quote: { value: 10_000_050, method: "mean" } });
+  });
+});
+
+describe("derived pairs", () => {
+  it("triangulates through a bridge, with fiat legs quoted by two venues", async () => {
+    market([{ price: 60_000 }, { price: 60_000 }, { price: 60_000 }], "BTC-USD");
+    market([{ price: 0.9 }, { price: 0.9 }], "USD-CHF");
+
+    expect(supportedPairs()).toContain("USD-CHF");
+    const result = await resolvePrice("BTC-CHF", options());
+
+    expect(result).toMatchObject({ ok: true, quote: { method: "triangulated", derivation: { path: ["BTC-USD", "USD-CHF"] } } });
+    expect(result.ok && result.quote.value).toBeCloseTo(54_000);
+    expect(result.ok && result.quote.used).toHaveLength(5);
+  });
+
+  it("inverts a directly quoted reverse market before trying a bridge", async () => {
+    market([{ price: 0.05 }, { price: 0.05 }, { price: 0.05 }], "ETH-BTC");
+    market([{ price: 3000 }, { price: 3000 }, { price: 3000 }], "ETH-USD");
+
+    expect(syntheticPairs()).toContain("BTC-ETH");
+    const result = await resolvePrice("BTC-ETH", options());
+
+    expect(result).toMatchObject({
+      ok: true,
+      quote: { method: "inverted", derivation: { path: ["ETH-BTC"], legs: [{ pair: "ETH-BTC", inverted: true }] } },
+    });
+    expect(result.ok && result.quote.value).toBeCloseTo(20);
+  });
+
+  it("reports each route's failure when no leg can be quoted", async () => {
+    const { sources } = market([{ price: 1.1, delayMs: 1000 }, { price: 1.1, delayMs: 1000 }], "USD-EUR");
+
+    const result = await resolvePrice("BTC-EUR", options({ deadlineAt: Date.now() + 100 }));
+
+    expect(result).toMatchObject({
+      ok: false,
+      failure: { error: "unsupported pair", triangulation: { error: "triangulation failed", attempts: [{ path: ["BTC-USD", "USD-EUR"] }] } },
+    });
+    expect(sources.every((s) => s.calls === 1)).toBe(true);
+  });
+});
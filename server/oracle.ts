@@ -0,0 +1,489 @@
+import type { Dispersion, PriceSample, PriceType, RejectedSample } from "@shared/schema";
+import { priceSources } from "./sources";
+import { hedged } from "./sources/http";
+import { aggregate, meetsQuorum, rejectOutliers } from "./aggregate";
+import { SampleCache } from "./sample-cache";
+import { SingleFlight } from "./single-flight";
+
+const MIN_QUORUM = Number(process.env.MIN_QUORUM ?? 3);
+export const CACHE_TTL_MS = Number(process.env.CACHE_TTL_MS ?? 2000);
+// Start a second, parallel fetch of a source still pending after this long; 0 disables hedging.
+const HEDGE_AFTER_MS = Number(process.env.HEDGE_AFTER_MS ?? 0);
+
+function csv(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+// Per-pair overrides for thinner markets, e.g. "BTC-JPY:2,USD-CHF:2". Only two of the
+// default venues quote BTC-JPY, so it ships with a quorum of two.
+const PAIR_MIN_QUORUM = new Map(
+  csv(process.env.PAIR_MIN_QUORUM ?? "BTC-JPY:2")
+    .map((s) => s.split(":"))
+    .filter(([pair, n]) => pair && n)
+    .map(([pair, n]) => [pair, Number(n)] as [string, number]),
+);
+// Pairs between two of these currencies are deep but quoted by few venues, so they need
+// only FIAT_MIN_QUORUM sources; that keeps fiat legs such as USD-CHF usable for triangulation.
+const FIAT_CURRENCIES = csv(process.env.FIAT_CURRENCIES ?? "USD,EUR,GBP,JPY,CHF,CAD,AUD");
+const FIAT_MIN_QUORUM = Number(process.env.FIAT_MIN_QUORUM ?? Math.min(2, MIN_QUORUM));
+// Currencies a synthetic pair may be routed through, tried in order.
+const TRIANGULATION_BRIDGES = csv(process.env.TRIANGULATION_BRIDGES ?? "USD,EUR,BTC");
+// Bases for which synthetic pairs are advertised in relay info.
+const SYNTHETIC_BASES = csv(process.env.SYNTHETIC_BASES ?? "BTC,ETH");
+
+export interface DerivationLeg {
+  pair: string;
+  /** True when the leg was quoted from the reverse market and inverted (1 / value). */
+  inverted: boolean;
+  value: number;
+  method: string;
+  sources_used: string[];
+  samples: PriceSample[];
+  rejected: RejectedSample[];
+  dispersion: Dispersion;
+  /** depth_mid size filled on this leg's books, in the quote currency of the market quoted. */
+  notional?: number;
+}
+
+export interface PriceQuote {
+  pair: string;
+  value: number;
+  method: string;
+  used: PriceSample[];
+  /** Samples dropped as outliers before aggregation, with the reason. */
+  rejected: RejectedSample[];
+  dispersion: Dispersion;
+  /** `hit` when no source had to be fetched; `ageMs` is the oldest sample's age. */
+  cache: { hit: boolean; ageMs: number; fetched: string[] };
+  /** Sources still being fetched when the quote was made. */
+  pending: string[];
+  derivation?: { path: string[]; legs: DerivationLeg[] };
+}
+
+export interface QuoteFailure {
+  error: string;
+  [key: string]: unknown;
+}
+
+export type QuoteResult = { ok: true; quote: PriceQuote } | { ok: false; failure: QuoteFailure };
+
+export interface QuoteOptions {
+  method: string;
+  maxAgeMs: number;
+  /** Source ids the requester asked for; ignored when none of them quote the pair. */
+  sources?: unknown;
+  /** Refuse to answer when the samples disagree by more than these bounds. */
+  maxDispersion?: DispersionBounds;
+  /** Epoch ms by which the quote must be ready; sources still pending then are left out. */
+  deadlineAt: number;
+  priceType: PriceType;
+  /** Size, in quote currency, a `depth_mid` quote fills against each book. */
+  notional?: number;
+}
+
+/** Caller bounds on disagreement, as percentages of the value. */
+export interface DispersionBounds {
+  spreadPct?: number;
+  stddevPct?: number;
+  confPct?: number;
+}
+
+const sampleCache = new SampleCache(CACHE_TTL_MS);
+const sampleFetches = new SingleFlight<PriceSample>();
+
+/**
+ * What a sample prices: the pair for last-trade samples, otherwise the pair plus price type
+ * (and notional for depth_mid), so samples of different types never stand in for each other.
+ */
+function seriesOf(pair: string, priceType: PriceType, notional?: number): string {
+  if (priceType === "last") return pair;
+  return priceType === "depth_mid" ? `${pair}/depth_mid@${notional}` : `${pair}/${priceType}`;
+}
+
+/**
+ * Fetches a fresh sample, joining a fetch of the same source and pair already in flight so
+ * concurrent cache misses (and background refreshes) hit each exchange once and share the
+ * resulting sample. The sample is cached for `ttlMs` when given, else CACHE_TTL_MS.
+ */
+export function fetchShared(source: string, pair: string, priceType: PriceType = "last", notional?: number, ttlMs?: number): Promise<PriceSample> {
+  const series = seriesOf(pair, priceType, notional);
+  return sampleFetches.do(`${source}:${series}`, async () => {
+    const sample = await hedged(() => priceSources.fetchSample(source, pair, priceType, notional), HEDGE_AFTER_MS);
+    sampleCache.set(series, sample, ttlMs);
+    return sample;
+  });
+}
+
+/** Whether a cached last-trade sample for `source`/`pair` is younger than `maxAgeMs` or a fetch is already running. */
+export function hasFreshSample(source: string, pair: string, maxAgeMs: number): boolean {
+  return sampleCache.get(source, pair, maxAgeMs) !== null || sampleFetches.has(`${source}:${pair}`);
+}
+
+export function normalizePair(raw: unknown): string | null {
+  const pair = String(raw ?? "").trim().toUpperCase();
+  return /^[A-Z0-9]{2,10}-[A-Z0-9]{2,10}$/.test(pair) ? pair : null;
+}
+
+function invertPair(pair: string): string {
+  const [base, quote] = pair.split("-");
+  return `${quote}-${base}`;
+}
+
+export function quorumFor(pair: string): number {
+  const override = PAIR_MIN_QUORUM.get(pair);
+  if (override !== undefined) return override;
+  return pair.split("-").every((c) => FIAT_CURRENCIES.includes(c)) ? FIAT_MIN_QUORUM : MIN_QUORUM;
+}
+
+/** Pairs enough enabled sources quote to reach that pair's quorum. */
+export function supportedPairs(): string[] {
+  return priceSources.pairs().filter((pair) => priceSources.enabledIds(pair).length >= quorumFor(pair));
+}
+
+/** A quotable leg: the pair itself, or its reverse market to be inverted. */
+function legFor(pair: string, direct: string[]): { pair: string; inverted: boolean } | null {
+  if (direct.includes(pair)) return { pair, inverted: false };
+  if (direct.includes(invertPair(pair))) return { pair: invertPair(pair), inverted: true };
+  return null;
+}
+
+function routesFor(pair: string, direct: string[]): [string, string][] {
+  const [base, quote] = pair.split("-");
+  const routes: [string, string][] = [];
+  for (const bridge of TRIANGULATION_BRIDGES) {
+    if (bridge === base || bridge === quote) continue;
+    const first = `${base}-${bridge}`;
+    const second = `${bridge}-${quote}`;
+    if (legFor(first, direct) && legFor(second, direct)) routes.push([first, second]);
+  }
+  return routes;
+}
+
+/** Pairs with no direct quorum that can be derived from their reverse market or through a bridge currency. */
+export function syntheticPairs(): string[] {
+  const direct = supportedPairs();
+  const currencies = new Set<string>();
+  for (const p of priceSources.pairs()) p.split("-").forEach((c) => currencies.add(c));
+
+  const out: string[] = [];
+  for (const base of SYNTHETIC_BASES) {
+    currencies.forEach((quote) => {
+      const pair = `${base}-${quote}`;
+      if (quote === base || direct.includes(pair)) return;
+      if (direct.includes(invertPair(pair)) || routesFor(pair, direct).length) out.push(pair);
+    });
+  }
+  return out.sort();
+}
+
+/**
+ * Starts a fetch per source and resolves as soon as `enough` accepts the samples in so far
+ * (possibly none, when the cache already covers the request), every fetch has settled, or
+ * `deadlineAt` passes, whichever comes first. Fetches still running keep going and land in
+ * the cache for later requests.
+ */
+function gather(
+  pair: string,
+  ids: string[],
+  enough: (samples: PriceSample[]) => boolean,
+  opts: QuoteOptions,
+): Promise<{ samples: PriceSample[]; pending: string[] }> {
+  const oldestTs = Date.now() - opts.maxAgeMs;
+  return new Promise((resolve) => {
+    const samples: PriceSample[] = [];
+    const pending = new Set(ids);
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      resolve({ samples: [...samples], pending: ids.filter((id) => pending.has(id)) });
+    };
+    const timer = setTimeout(finish, Math.max(0, opts.deadlineAt - Date.now()));
+
+    for (const id of ids) {
+      fetchShared(id, pair, opts.priceType, opts.notional).then(
+        (s) => {
+          pending.delete(id);
+          // A streamed sample can predate the fetch; one older than the request allows doesn't count.
+          if (!done && s.ts >= oldestTs) samples.push(s);
+          if (!pending.size || (!done && enough(samples))) finish();
+        },
+        () => {
+          pending.delete(id);
+          if (!pending.size) finish();
+        },
+      );
+    }
+    if (!ids.length || enough(samples)) finish();
+  });
+}
+
+async function quoteDirect(pair: string, opts: QuoteOptions): Promise<QuoteResult> {
+  if (!supportedPairs().includes(pair)) {
+    return { ok: false, failure: { error: "unsupported pair", pair, supported_pairs: supportedPairs(), synthetic_pairs: syntheticPairs() } };
+  }
+
+  const quorum = quorumFor(pair);
+  const available = priceSources.enabledIds(pair, opts.priceType);
+  if (available.length < quorum) {
+    return { ok: false, failure: { error: "unsupported price type", pair, price_type: opts.priceType, need: quorum, sources: available } };
+  }
+  const wantedSources = Array.isArray(opts.sources) ? opts.sources.filter((s: string) => available.includes(s)) : available;
+  const sources = wantedSources.length ? wantedSources : available;
+
+  // Reuse each source's cached sample while it is within maxAgeMs; fetch only the rest.
+  const series = seriesOf(pair, opts.priceType, opts.notional);
+  const cached: PriceSample[] = [];
+  const stale: string[] = [];
+  for (const id of sources) {
+    const sample = sampleCache.get(id, series, opts.maxAgeMs);
+    if (sample) cached.push(sample);
+    else stale.push(id);
+  }
+
+  // Sources with an open circuit are skipped outright rather than waiting out a timeout.
+  const circuitOpen = stale.filter((id) => !priceSources.isAvailable(id));
+  const toFetch = stale.filter((id) => !circuitOpen.includes(id));
+  // Quorum has to survive outlier rejection, so one bad early answer means waiting for another,
+  // and a volume-weighted method waits for enough venues that report volume.
+  const enough = (fetched: PriceSample[]) => meetsQuorum(rejectOutliers([...cached, ...fetched]).kept, opts.method, quorum);
+  const { samples: fetched, pending } = await gather(pair, toFetch, enough, opts);
+
+  const samples = [...cached, ...fetched];
+  if (samples.length < quorum) {
+    return {
+      ok: false,
+      failure: { error: "insufficient quorum", pair, need: quorum, got: samples.length, sources_requested: sources, circuit_open: circuitOpen, pending },
+    };
+  }
+
+  const now = Date.now();
+  return quoteSamples(pair, samples, quorum, opts, pending, {
+    hit: !fetched.length,
+    ageMs: Math.max(...samples.map((s) => now - s.ts)),
+    fetched: fetched.map((s) => s.source),
+  });
+}
+
+/** Aggregates samples, requiring quorum to survive outlier rejection too. */
+function quoteSamples(pair: string, samples: PriceSample[], quorum: number, opts: QuoteOptions, pending: string[], cache: PriceQuote["cache"]): QuoteResult {
+  const { kept, rejected } = rejectOutliers(samples);
+  if (kept.length < quorum) {
+    return { ok: false, failure: { error: "insufficient quorum", pair, need: quorum, got: kept.length, rejected } };
+  }
+  const { value, method, used, dispersion } = aggregate(kept, opts.method, quorum);
+  return { ok: true, quote: { pair, value, method, used, rejected, dispersion, cache, pending } };
+}
+
+/** Dispersion of 1/x: bounds swap, and relative spread carries over to the inverted value. */
+function invertDispersion(d: Dispersion, value: number): Dispersion {
+  const inverted = 1 / value;
+  const min = 1 / d.max;
+  const max = 1 / d.min;
+  return { min, max, spread: max - min, stddev: (d.stddev / value) * inverted, conf: (d.conf / value) * inverted };
+}
+
+/**
+ * Dispersion of a product of legs. Bounds multiply; relative stddevs add in quadrature as
+ * for independent errors, and relative conf adds linearly to stay conservative.
+ */
+function productDispersion(legs: DerivationLeg[], value: number): Dispersion {
+  const min = legs.reduce((n, l) => n * l.dispersion.min, 1);
+  const max = legs.reduce((n, l) => n * l.dispersion.max, 1);
+  const relStddev = Math.sqrt(legs.reduce((n, l) => n + (l.dispersion.stddev / l.value) ** 2, 0));
+  const relConf = legs.reduce((n, l) => n + l.dispersion.conf / l.value, 0);
+  return { min, max, spread: max - min, stddev: relStddev * value, conf: relConf * value };
+}
+
+type LegResult = { ok: true; leg: DerivationLeg; quote: PriceQuote } | { ok: false; failure: QuoteFailure };
+
+/** The side to quote on the reverse market: its ask, inverted, is this pair's bid and vice versa. */
+function invertPriceType(priceType: PriceType): PriceType {
+  if (priceType === "bid") return "ask";
+  if (priceType === "ask") return "bid";
+  return priceType;
+}
+
+async function quoteLeg(pair: string, direct: string[], opts: QuoteOptions): Promise<LegResult> {
+  const target = legFor(pair, direct)!;
+  const result = await quoteDirect(target.pair, {
+    method: opts.method,
+    maxAgeMs: opts.maxAgeMs,
+    deadlineAt: opts.deadlineAt,
+    priceType: target.inverted ? invertPriceType(opts.priceType) : opts.priceType,
+    notional: opts.notional,
+  });
+  if (!result.ok) return result;
+
+  const q = result.quote;
+  const leg: DerivationLeg = {
+    pair: target.pair,
+    inverted: target.inverted,
+    value: target.inverted ? 1 / q.value : q.value,
+    method: q.method,
+    sources_used: q.used.map((s) => s.source),
+    samples: q.used,
+    rejected: q.rejected,
+    dispersion: target.inverted ? invertDispersion(q.dispersion, q.value) : q.dispersion,
+  };
+  if (opts.priceType === "depth_mid") leg.notional = opts.notional;
+  return { ok: true, leg, quote: q };
+}
+
+/**
+ * A depth_mid notional is in the requested pair's quote currency, but each leg's books fill
+ * in the quote currency of the market quoted. Converts it per leg at the legs' mid prices.
+ */
+async function legNotionals(path: string[], direct: string[], opts: QuoteOptions): Promise<{ ok: true; notionals: number[] } | { ok: false; failure: QuoteFailure }> {
+  const [first, second] = await Promise.all(path.map((leg) => quoteLeg(leg, direct, { ...opts, priceType: "mid" })));
+  if (!first.ok) return first;
+  if (!second.ok) return second;
+
+  // Legs are base-bridge and bridge-quote, valued in that direction whichever market was quoted.
+  const notional = opts.notional!;
+  const inBridge = notional / second.leg.value;
+  return {
+    ok: true,
+    notionals: [first.leg.inverted ? inBridge / first.leg.value : inBridge, second.leg.inverted ? inBridge : notional],
+  };
+}
+
+/**
+ * Quotes `pair` as 1 / value of its reverse market, when that market is quoted directly.
+ * The one inverted leg is kept in the derivation like a triangulated pair's legs.
+ */
+async function quoteInverse(pair: string, opts: QuoteOptions): Promise<QuoteResult | null> {
+  const direct = supportedPairs();
+  if (!direct.includes(invertPair(pair))) return null;
+
+  let notional = opts.notional;
+  if (opts.priceType === "depth_mid") {
+    // The notional is in this pair's quote currency; the reverse market's books fill in its base.
+    const mid = await quoteLeg(pair, direct, { ...opts, priceType: "mid" });
+    if (!mid.ok) return mid;
+    notional = opts.notional! / mid.leg.value;
+  }
+  const result = await quoteLeg(pair, direct, { ...opts, notional });
+  if (!result.ok) return result;
+
+  const { leg, quote } = result;
+  return {
+    ok: true,
+    quote: {
+      pair,
+      value: leg.value,
+      method: "inverted",
+      used: quote.used,
+      rejected: quote.rejected,
+      dispersion: leg.dispersion,
+      cache: quote.cache,
+      pending: quote.pending,
+      derivation: { path: [leg.pair], legs: [leg] },
+    },
+  };
+}
+
+/**
+ * Derives `pair` as base-bridge × bridge-quote, inverting a leg when only the reverse
+ * market is quoted. Each leg must reach its own quorum; every leg's samples are kept in
+ * the derivation so consumers can recompute the value.
+ */
+async function triangulate(pair: string, opts: QuoteOptions): Promise<QuoteResult | null> {
+  const direct = supportedPairs();
+  const routes = routesFor(pair, direct);
+  if (!routes.length) return null;
+
+  const attempts: { path: string[]; failure: QuoteFailure }[] = [];
+  for (const path of routes) {
+    let notionals: number[] = [];
+    if (opts.priceType === "depth_mid") {
+      const converted = await legNotionals(path, direct, opts);
+      if (!converted.ok) {
+        attempts.push({ path, failure: converted.failure });
+        continue;
+      }
+      notionals = converted.notionals;
+    }
+    const [first, second] = await Promise.all(path.map((leg, i) => quoteLeg(leg, direct, { ...opts, notional: notionals[i] ?? opts.notional })));
+    if (!first.ok) {
+      attempts.push({ path, failure: first.failure });
+      continue;
+    }
+    if (!second.ok) {
+      attempts.push({ path, failure: second.failure });
+      continue;
+    }
+
+    const legs = [first.leg, second.leg];
+    const value = first.leg.value * second.leg.value;
+    return {
+      ok: true,
+      quote: {
+        pair,
+        value,
+        method: "triangulated",
+        used: [...first.quote.used, ...second.quote.used],
+        rejected: [...first.quote.rejected, ...second.quote.rejected],
+        dispersion: productDispersion(legs, value),
+        cache: {
+          hit: first.quote.cache.hit && second.quote.cache.hit,
+          ageMs: Math.max(first.quote.cache.ageMs, second.quote.cache.ageMs),
+          fetched: [...first.quote.cache.fetched, ...second.quote.cache.fetched],
+        },
+        pending: [...first.quote.pending, ...second.quote.pending],
+        derivation: { path, legs },
+      },
+    };
+  }
+
+  return { ok: false, failure: { error: "triangulation failed", pair, attempts } };
+}
+
+/** Returns a failure when the quote's dispersion breaks any bound the caller set. */
+function checkDispersion(quote: PriceQuote, bounds: DispersionBounds | undefined): QuoteFailure | null {
+  if (!bounds) return null;
+  const { spread, stddev, conf } = quote.dispersion;
+  const actual: Record<keyof DispersionBounds, number> = {
+    spreadPct: (spread / quote.value) * 100,
+    stddevPct: (stddev / quote.value) * 100,
+    confPct: (conf / quote.value) * 100,
+  };
+  for (const key of Object.keys(actual) as (keyof DispersionBounds)[]) {
+    const bound = bounds[key];
+    if (bound !== undefined && actual[key] > bound) {
+      return { error: "dispersion too high", pair: quote.pair, bound: key, limit: bound, actual: actual[key], value: quote.value, dispersion: quote.dispersion };
+    }
+  }
+  return null;
+}
+
+/**
+ * Quotes a pair directly, falling back to its inverted reverse market and then to a
+ * synthetic cross when direct quorum can't be met.
+ */
+export async function resolvePrice(pair: string, opts: QuoteOptions): Promise<QuoteResult> {
+  const result = await resolveQuote(pair, opts);
+  if (!result.ok) return result;
+  const failure = checkDispersion(result.quote, opts.maxDispersion);
+  return failure ? { ok: false, failure } : result;
+}
+
+async function resolveQuote(pair: string, opts: QuoteOptions): Promise<QuoteResult> {
+  const direct = await quoteDirect(pair, opts);
+  if (direct.ok) return direct;
+
+  const inverse = await quoteInverse(pair, opts);
+  if (inverse?.ok) return inverse;
+
+  const synthetic = await triangulate(pair, opts);
+  if (synthetic?.ok) return synthetic;
+  if (!inverse && !synthetic) return direct;
+  return {
+    ok: false,
+    failure: { ...direct.failure, ...(inverse ? { inverse: inverse.failure } : {}), ...(synthetic ? { triangulation: synthetic.failure } : {}) },
+  };
+}
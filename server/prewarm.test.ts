@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.PREWARM_INTERVAL_MS = "5000";
+});
+vi.mock("./index", () => ({ log: () => {} }));
+vi.mock("./sources", () => ({
+  priceSources: { enabledIds: vi.fn(), isAvailable: vi.fn(), rateLimitOf: vi.fn() },
+}));
+vi.mock("./oracle", () => ({
+  CACHE_TTL_MS: 2000,
+  fetchShared: vi.fn(),
+  hasFreshSample: vi.fn(),
+  supportedPairs: () => ["BTC-USD"],
+}));
+
+import { priceSources } from "./sources";
+import { fetchShared, hasFreshSample } from "./oracle";
+import { startPrewarm } from "./prewarm";
+
+/** Source ids refreshed so far, in order. */
+function refreshed(): string[] {
+  return vi.mocked(fetchShared).mock.calls.map(([id]) => id);
+}
+
+describe("Prewarmer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(priceSources.enabledIds).mockReturnValue(["a", "b"]);
+    vi.mocked(priceSources.isAvailable).mockReturnValue(true);
+    vi.mocked(priceSources.rateLimitOf).mockReturnValue(undefined);
+    vi.mocked(hasFreshSample).mockReturnValue(false);
+    vi.mocked(fetchShared).mockReset().mockResolvedValue({ source: "", value: 1, ts: 0 });
+  });
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+  });
+
+  it("refreshes every source at start and on each tick, caching until past the next tick", () => {
+    startPrewarm();
+    expect(fetchShared).toHaveBeenCalledWith("a", "BTC-USD", "last", undefined, 7000);
+    expect(refreshed()).toEqual(["a", "b"]);
+
+    vi.advanceTimersByTime(5000);
+    expect(refreshed()).toEqual(["a", "b", "a", "b"]);
+  });
+
+  it("skips sources with a fresh sample or an open circuit", () => {
+    vi.mocked(priceSources.enabledIds).mockReturnValue(["a", "b", "c"]);
+    vi.mocked(hasFreshSample).mockImplementation((id) => id === "a");
+    vi.mocked(priceSources.isAvailable).mockImplementation((id) => id !== "b");
+    startPrewarm();
+
+    expect(refreshed()).toEqual(["c"]);
+    expect(hasFreshSample).toHaveBeenCalledWith("a", "BTC-USD", 2500);
+  });
+
+  it("skips refreshes beyond a source's rate limit until a later tick", () => {
+    vi.mocked(priceSources.rateLimitOf).mockImplementation((id) => (id === "a" ? 6 : undefined));
+    startPrewarm();
+    expect(refreshed()).toEqual(["a", "b"]);
+
+    // Six a minute is one every ten seconds: the tick at five seconds skips it.
+    vi.advanceTimersByTime(5000);
+    expect(refreshed()).toEqual(["a", "b", "b"]);
+    vi.advanceTimersByTime(5000);
+    expect(refreshed()).toEqual(["a", "b", "b", "a", "b"]);
+  });
+});
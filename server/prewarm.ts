@@ -0,0 +1,59 @@
+import { log } from "./index";
+import { priceSources } from "./sources";
+import { CACHE_TTL_MS, fetchShared, hasFreshSample, supportedPairs } from "./oracle";
+import { RateLimiter } from "./rate-limiter";
+
+// 0 disables pre-warming; replies then fetch on demand.
+const PREWARM_INTERVAL_MS = Number(process.env.PREWARM_INTERVAL_MS ?? 0);
+const PREWARM_PAIRS = (process.env.PREWARM_PAIRS ?? "")
+  .split(",")
+  .map((s) => s.trim().toUpperCase())
+  .filter(Boolean);
+
+/**
+ * Keeps the sample cache hot by refreshing every enabled source for each pair on an
+ * interval. Each source gets its own token bucket sized from its `rateLimitPerMin`, so a
+ * refresh the budget can't cover is skipped until a later tick rather than queued.
+ * Refreshed samples are cached for the interval plus CACHE_TTL_MS, so one lasts until the
+ * next tick's refresh lands even when the interval is longer than the cache TTL.
+ */
+class Prewarmer {
+  private limiters = new Map<string, RateLimiter>();
+
+  constructor(private intervalMs: number, private pairs: () => string[]) {}
+
+  start(): void {
+    setInterval(() => this.tick(), this.intervalMs).unref();
+    this.tick();
+  }
+
+  private tick(): void {
+    for (const pair of this.pairs()) {
+      for (const id of priceSources.enabledIds(pair)) {
+        // A sample fetched within the last half interval (e.g. by a request) needs no refresh yet.
+        if (hasFreshSample(id, pair, this.intervalMs / 2) || !priceSources.isAvailable(id)) continue;
+        const limiter = this.limiter(id);
+        if (limiter && !limiter.allow(id)) continue;
+        fetchShared(id, pair, "last", undefined, this.intervalMs + CACHE_TTL_MS).catch(() => {});
+      }
+    }
+  }
+
+  private limiter(id: string): RateLimiter | undefined {
+    const perMin = priceSources.rateLimitOf(id);
+    if (perMin === undefined) return undefined;
+    let limiter = this.limiters.get(id);
+    if (!limiter) {
+      limiter = new RateLimiter(perMin / 60, 1);
+      this.limiters.set(id, limiter);
+    }
+    return limiter;
+  }
+}
+
+export function startPrewarm(): void {
+  if (PREWARM_INTERVAL_MS <= 0) return;
+  const pairs = () => (PREWARM_PAIRS.length ? PREWARM_PAIRS : supportedPairs());
+  new Prewarmer(PREWARM_INTERVAL_MS, pairs).start();
+  log(`Pre-warming ${PREWARM_PAIRS.length ? PREWARM_PAIRS.join(", ") : "all supported pairs"} every ${PREWARM_INTERVAL_MS}ms`, "nostr");
+}
@@ -0,0 +1,19 @@
+/** Token bucket per key: `rps` tokens refill each second, up to `burst`. */
+export class RateLimiter {
+  buckets = new Map<string, { tokens: number; last: number }>();
+  constructor(private rps: number, private burst: number) {}
+
+  allow(key: string, nowMs = Date.now()): boolean {
+    const b = this.buckets.get(key) ?? { tokens: this.burst, last: nowMs };
+    const elapsed = (nowMs - b.last) / 1000;
+    b.last = nowMs;
+    b.tokens = Math.min(this.burst, b.tokens + elapsed * this.rps);
+    if (b.tokens < 1) {
+      this.buckets.set(key, b);
+      return false;
+    }
+    b.tokens -= 1;
+    this.buckets.set(key, b);
+    return true;
+  }
+}
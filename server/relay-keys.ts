@@ -0,0 +1,101 @@
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from "crypto";
+import { readFileSync } from "fs";
+import { generateSecretKey, getPublicKey, nip19 } from "nostr-tools";
+import type { LocalAccount } from "@shared/schema";
+
+/** Same blob layout the dashboard uses for local accounts: PBKDF2-SHA256 + AES-256-GCM, tag appended to ct. */
+export type EncryptedKey = LocalAccount["enc"];
+
+export interface RelayKeyPair {
+  secretKey: Uint8Array;
+  pubkey: string;
+}
+
+export interface RelayKeys {
+  current: RelayKeyPair;
+  /** Key being rotated away from; it signs the announcement naming `current`. */
+  previous: RelayKeyPair | null;
+  /** True when no key was configured and a throwaway one was generated. */
+  ephemeral: boolean;
+}
+
+const KDF_ITERS = 200000;
+const GCM_TAG_BYTES = 16;
+
+function keyPair(secretKey: Uint8Array): RelayKeyPair {
+  return { secretKey, pubkey: getPublicKey(secretKey) };
+}
+
+export function parseSecretKey(raw: string): Uint8Array {
+  const s = raw.trim();
+  if (s.startsWith("nsec1")) {
+    const decoded = nip19.decode(s);
+    if (decoded.type !== "nsec") throw new Error("expected an nsec key");
+    return decoded.data;
+  }
+  if (!/^[0-9a-fA-F]{64}$/.test(s)) throw new Error("secret key must be 64 hex characters or nsec");
+  return new Uint8Array(Buffer.from(s, "hex"));
+}
+
+export function encryptSecretKey(secretKey: Uint8Array, passphrase: string): EncryptedKey {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = pbkdf2Sync(passphrase, salt, KDF_ITERS, 32, "sha256");
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ct = Buffer.concat([cipher.update(secretKey), cipher.final(), cipher.getAuthTag()]);
+  return {
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    ct: ct.toString("base64"),
+    kdf: { name: "PBKDF2", iters: KDF_ITERS },
+  };
+}
+
+export function decryptSecretKey(blob: EncryptedKey, passphrase: string): Uint8Array {
+  const salt = Buffer.from(blob.salt, "base64");
+  const iv = Buffer.from(blob.iv, "base64");
+  const ct = Buffer.from(blob.ct, "base64");
+  const key = pbkdf2Sync(passphrase, salt, blob?.kdf?.iters ?? KDF_ITERS, 32, "sha256");
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(ct.subarray(ct.length - GCM_TAG_BYTES));
+  const pt = Buffer.concat([decipher.update(ct.subarray(0, ct.length - GCM_TAG_BYTES)), decipher.final()]);
+  if (pt.length !== 32) throw new Error("bad secret key length");
+  return new Uint8Array(pt);
+}
+
+function readKeyfile(path: string, passphrase: string | undefined): Uint8Array {
+  if (!passphrase) throw new Error(`keyfile ${path} needs RELAY_KEYFILE_PASSPHRASE`);
+  const blob = JSON.parse(readFileSync(path, "utf8")) as EncryptedKey;
+  return decryptSecretKey(blob, passphrase);
+}
+
+function loadKey(hexVar: string, fileVar: string): Uint8Array | null {
+  const hex = process.env[hexVar];
+  if (hex) return parseSecretKey(hex);
+  const file = process.env[fileVar];
+  if (file) return readKeyfile(file, process.env.RELAY_KEYFILE_PASSPHRASE);
+  return null;
+}
+
+/**
+ * Resolves the relay identity from RELAY_PRIVKEY_HEX or RELAY_KEYFILE, and the key being
+ * rotated out from RELAY_PREVIOUS_PRIVKEY_HEX or RELAY_PREVIOUS_KEYFILE. Falls back to a
+ * generated key only when nothing is configured.
+ */
+export function loadRelayKeys(): RelayKeys {
+  const configured = loadKey("RELAY_PRIVKEY_HEX", "RELAY_KEYFILE");
+  const current = keyPair(configured ?? generateSecretKey());
+
+  const expected = process.env.RELAY_PUBKEY_HEX;
+  if (configured && expected && expected.toLowerCase() !== current.pubkey) {
+    throw new Error(`RELAY_PUBKEY_HEX does not match the configured relay key (derived ${current.pubkey})`);
+  }
+
+  const previousKey = loadKey("RELAY_PREVIOUS_PRIVKEY_HEX", "RELAY_PREVIOUS_KEYFILE");
+  const previous = previousKey ? keyPair(previousKey) : null;
+  if (previous && previous.pubkey === current.pubkey) {
+    throw new Error("previous relay key is the same as the current one");
+  }
+
+  return { current, previous, ephemeral: !configured };
+}
@@ -1,6 +1,7 @@
 import type { Express } from "express";
 import { type Server } from "http";
 import { setupNostrRelay, getRelayInfo } from "./nostr-relay";
+import { priceSources } from "./sources";
 import { execSync } from "child_process";
 import { existsSync, unlinkSync } from "fs";
 import path from "path";
@@ -17,6 +18,10 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     res.send("ok");
   });
 
+  app.get("/api/sources/health", (_req, res) => {
+    res.json(priceSources.healthReport());
+  });
+
   app.get("/api/download-zip", (_req, res) => {
     const zipPath = path.join(process.cwd(), "btc-price-relay-download.zip");
     
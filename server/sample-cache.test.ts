@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { SampleCache } from "./sample-cache";
+
+describe("SampleCache", () => {
+  it("keys samples by source and pair", () => {
+    const cache = new SampleCache(2000);
+    cache.set("BTC-USD", { source: "a", value: 1, ts: 0 });
+    cache.set("ETH-USD", { source: "a", value: 2, ts: 0 });
+
+    expect(cache.get("a", "BTC-USD", 1000, 0)?.value).toBe(1);
+    expect(cache.get("a", "ETH-USD", 1000, 0)?.value).toBe(2);
+    expect(cache.get("b", "BTC-USD", 1000, 0)).toBeNull();
+  });
+
+  it("ages each sample on its own timestamp, capping maxAgeMs at the TTL", () => {
+    const cache = new SampleCache(2000);
+    cache.set("BTC-USD", { source: "a", value: 1, ts: 1000 });
+    cache.set("BTC-USD", { source: "b", value: 1, ts: 0 });
+
+    expect(cache.get("a", "BTC-USD", 1000, 2000)).not.toBeNull();
+    expect(cache.get("b", "BTC-USD", 1000, 2000)).toBeNull();
+    expect(cache.get("a", "BTC-USD", 60_000, 3001)).toBeNull();
+  });
+
+  it("never replaces a sample with an older one", () => {
+    const cache = new SampleCache(2000);
+    cache.set("BTC-USD", { source: "a", value: 2, ts: 1000 });
+    cache.set("BTC-USD", { source: "a", value: 1, ts: 500 });
+
+    expect(cache.get("a", "BTC-USD", 1000, 1000)?.value).toBe(2);
+  });
+
+  it("keeps a sample stored with its own TTL past the cache's", () => {
+    const cache = new SampleCache(2000);
+    cache.set("BTC-USD", { source: "a", value: 1, ts: 0 }, 7000);
+    cache.set("BTC-USD", { source: "b", value: 1, ts: 0 });
+
+    expect(cache.get("a", "BTC-USD", 10_000, 5000)?.source).toBe("a");
+    expect(cache.get("a", "BTC-USD", 10_000, 7001)).toBeNull();
+    expect(cache.get("b", "BTC-USD", 10_000, 5000)).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import type { PriceSample } from "@shared/schema";
+
+/**
+ * Latest sample per source and pair. Entries age individually, so one slow or failing
+ * source never forces a refetch of the others, and a request only ever sees samples
+ * from the sources it asked for.
+ */
+export class SampleCache {
+  private samples = new Map<string, { sample: PriceSample; ttlMs: number }>();
+
+  constructor(private ttlMs: number) {}
+
+  /** The cached sample for `source`/`pair` if it is no older than `maxAgeMs` (capped at its TTL). */
+  get(source: string, pair: string, maxAgeMs: number, now = Date.now()): PriceSample | null {
+    const entry = this.samples.get(this.key(source, pair));
+    if (!entry) return null;
+    return now - entry.sample.ts <= Math.min(maxAgeMs, entry.ttlMs) ? entry.sample : null;
+  }
+
+  /** Keeps `sample` unless a newer one is held; `ttlMs` overrides the cache's TTL for this sample. */
+  set(pair: string, sample: PriceSample, ttlMs = this.ttlMs): void {
+    const key = this.key(sample.source, pair);
+    const current = this.samples.get(key);
+    if (!current || current.sample.ts <= sample.ts) this.samples.set(key, { sample, ttlMs });
+  }
+
+  private key(source: string, pair: string): string {
+    return `${source}:${pair}`;
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from "vitest";
+import { SingleFlight } from "./single-flight";
+
+describe("SingleFlight", () => {
+  it("runs one call per key while it is in flight", async () => {
+    const flight = new SingleFlight<number>();
+    const fn = vi.fn(async () => 1);
+
+    const [a, b] = [flight.do("k", fn), flight.do("k", fn)];
+    await flight.do("other", fn);
+
+    expect(a).toBe(b);
+    await expect(a).resolves.toBe(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("forgets a call once it settles, so the next one starts afresh", async () => {
+    const flight = new SingleFlight<number>();
+    await flight.do("k", async () => 1);
+
+    expect(flight.has("k")).toBe(false);
+    await expect(flight.do("k", async () => 2)).resolves.toBe(2);
+  });
+
+  it("shares a failure with every caller and then forgets it", async () => {
+    const flight = new SingleFlight<number>();
+    const failing = () => Promise.reject(new Error("down"));
+
+    const calls = [flight.do("k", failing), flight.do("k", failing)];
+    for (const call of calls) await expect(call).rejects.toThrow("down");
+    expect(flight.size).toBe(0);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Coalesces concurrent calls with the same key onto one in-flight promise. The entry is
+ * dropped as soon as it settles, so later calls start a fresh one; nothing is cached.
+ */
+export class SingleFlight<T> {
+  private inflight = new Map<string, Promise<T>>();
+
+  get size(): number {
+    return this.inflight.size;
+  }
+
+  has(key: string): boolean {
+    return this.inflight.has(key);
+  }
+
+  do(key: string, fn: () => Promise<T>): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) return existing;
+
+    const p = fn().finally(() => this.inflight.delete(key));
+    this.inflight.set(key, p);
+    return p;
+  }
+}
@@ -0,0 +1,30 @@
+import type { PriceSource } from "./types";
+import { fetchJson, optionalPrice, optionalTimestamp, optionalVolume, requirePrice } from "./http";
+import { parseLevels } from "./order-book";
+
+const MARKETS: Record<string, string> = {
+  "BTC-USD": "btcusd",
+  "BTC-EUR": "btceur",
+  "BTC-GBP": "btcgbp",
+  "ETH-USD": "ethusd",
+  "ETH-EUR": "etheur",
+  "ETH-BTC": "ethbtc",
+};
+
+export const bitstamp: PriceSource = {
+  id: "bitstamp",
+  pairs: Object.keys(MARKETS),
+  weight: 1,
+  rateLimitPerMin: 600,
+  fetch: (pair, timeoutMs) => fetchJson(`https://www.bitstamp.net/api/v2/ticker/${MARKETS[pair]}`, timeoutMs),
+  priceTypes: ["last", "bid", "ask", "mid", "depth_mid"],
+  parse: (raw: any) => ({
+    price: requirePrice(raw?.last),
+    bid: optionalPrice(raw?.bid),
+    ask: optionalPrice(raw?.ask),
+    volume: optionalVolume(raw?.volume),
+    exchangeTs: optionalTimestamp(raw?.timestamp),
+  }),
+  fetchBook: (pair, timeoutMs) => fetchJson(`https://www.bitstamp.net/api/v2/order_book/${MARKETS[pair]}`, timeoutMs),
+  parseBook: (raw: any) => ({ bids: parseLevels(raw?.bids), asks: parseLevels(raw?.asks), exchangeTs: optionalTimestamp(raw?.timestamp) }),
+};
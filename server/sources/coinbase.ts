@@ -0,0 +1,57 @@
+import type { PriceSource, StreamFeed } from "./types";
+import { fetchJson, optionalPrice, optionalTimestamp, optionalVolume, requirePrice } from "./http";
+import { parseLevels } from "./order-book";
+
+const PRODUCTS: Record<string, string> = {
+  "BTC-USD": "BTC-USD",
+  "BTC-EUR": "BTC-EUR",
+  "BTC-GBP": "BTC-GBP",
+  "ETH-USD": "ETH-USD",
+  "ETH-EUR": "ETH-EUR",
+  "ETH-BTC": "ETH-BTC",
+};
+
+export const coinbase: PriceSource = {
+  id: "coinbase",
+  pairs: Object.keys(PRODUCTS),
+  weight: 1,
+  rateLimitPerMin: 300,
+  fetch: (pair, timeoutMs) => fetchJson(`https://api.exchange.coinbase.com/products/${PRODUCTS[pair]}/ticker`, timeoutMs),
+  priceTypes: ["last", "bid", "ask", "mid", "depth_mid"],
+  parse: (raw: any) => ({
+    price: requirePrice(raw?.price),
+    bid: optionalPrice(raw?.bid),
+    ask: optionalPrice(raw?.ask),
+    volume: optionalVolume(raw?.volume),
+    exchangeTs: optionalTimestamp(raw?.time),
+  }),
+  fetchBook: (pair, timeoutMs) => fetchJson(`https://api.exchange.coinbase.com/products/${PRODUCTS[pair]}/book?level=2`, timeoutMs),
+  parseBook: (raw: any) => ({ bids: parseLevels(raw?.bids), asks: parseLevels(raw?.asks), exchangeTs: optionalTimestamp(raw?.time) }),
+};
+
+const PAIR_OF_PRODUCT = Object.fromEntries(Object.entries(PRODUCTS).map(([pair, product]) => [product, pair]));
+
+/** Exchange WebSocket feed: the `ticker` channel pushes price, best bid/ask and 24h volume on every trade. */
+export const coinbaseStream: StreamFeed = {
+  id: "coinbase",
+  url: "wss://ws-feed.exchange.coinbase.com",
+  pairs: Object.keys(PRODUCTS),
+  subscribe: (pairs) => [{ type: "subscribe", product_ids: pairs.map((p) => PRODUCTS[p]), channels: ["ticker", "heartbeat"] }],
+  parse: (msg: any) => {
+    if (msg?.type === "error") throw new Error(msg.reason ?? msg.message ?? "stream error");
+    const pair = PAIR_OF_PRODUCT[msg?.product_id];
+    if (msg?.type !== "ticker" || !pair) return [];
+    return [
+      {
+        pair,
+        quote: {
+          price: requirePrice(msg.price),
+          bid: optionalPrice(msg.best_bid),
+          ask: optionalPrice(msg.best_ask),
+          volume: optionalVolume(msg.volume_24h),
+          exchangeTs: optionalTimestamp(msg.time),
+        },
+      },
+    ];
+  },
+};
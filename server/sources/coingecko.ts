@@ -0,0 +1,27 @@
+import type { PriceSource } from "./types";
+import { fetchJson, optionalTimestamp, requirePrice } from "./http";
+
+const COINS: Record<string, string> = { BTC: "bitcoin", ETH: "ethereum" };
+const QUOTES = ["USD", "EUR", "GBP", "JPY", "CHF"];
+
+function split(pair: string): [string, string] {
+  const [base, quote] = pair.split("-");
+  return [COINS[base], quote.toLowerCase()];
+}
+
+export const coingecko: PriceSource = {
+  id: "coingecko",
+  pairs: Object.keys(COINS).flatMap((base) => QUOTES.map((quote) => `${base}-${quote}`)),
+  weight: 1,
+  // Keyless public API tier.
+  rateLimitPerMin: 10,
+  fetch: (pair, timeoutMs) => {
+    const [id, vs] = split(pair);
+    return fetchJson(`https://api.coingecko.com/api/v3/simple/price?ids=${id}&vs_currencies=${vs}&include_last_updated_at=true`, timeoutMs);
+  },
+  parse: (raw: any, pair) => {
+    const [id, vs] = split(pair);
+    // No volume: CoinGecko's 24h figure is market-wide and would outweigh every single venue.
+    return { price: requirePrice(raw?.[id]?.[vs]), exchangeTs: optionalTimestamp(raw?.[id]?.last_updated_at) };
+  },
+};
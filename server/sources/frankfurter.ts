@@ -0,0 +1,19 @@
+import type { PriceSource } from "./types";
+import { fetchJson, optionalTimestamp, requirePrice } from "./http";
+
+// ECB reference rates; fiat legs for triangulated pairs.
+const CURRENCIES = ["USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD"];
+
+export const frankfurter: PriceSource = {
+  id: "frankfurter",
+  pairs: CURRENCIES.flatMap((base) => CURRENCIES.filter((q) => q !== base).map((quote) => `${base}-${quote}`)),
+  weight: 1,
+  rateLimitPerMin: 30,
+  // Reference rates are published once per working day, so allow for a long weekend.
+  maxStalenessMs: 4 * 24 * 60 * 60 * 1000,
+  fetch: (pair, timeoutMs) => {
+    const [base, quote] = pair.split("-");
+    return fetchJson(`https://api.frankfurter.app/latest?from=${base}&to=${quote}`, timeoutMs);
+  },
+  parse: (raw: any, pair) => ({ price: requirePrice(raw?.rates?.[pair.split("-")[1]]), exchangeTs: optionalTimestamp(raw?.date) }),
+};
@@ -0,0 +1,84 @@
+export async function fetchJson(url: string, timeoutMs: number): Promise<any> {
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    const r = await fetch(url, { signal: ctrl.signal, headers: { accept: "application/json" } });
+    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+    return await r.json();
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export async function withRetries<T>(fn: () => Promise<T>, retries: number): Promise<T> {
+  let lastErr: any;
+  for (let i = 0; i <= retries; i++) {
+    try {
+      return await fn();
+    } catch (e) {
+      lastErr = e;
+    }
+  }
+  throw lastErr;
+}
+
+/**
+ * Runs `fn`, and if it is still pending after `afterMs` starts a second attempt alongside;
+ * the first success wins. Rejects once no attempt is left running.
+ */
+export function hedged<T>(fn: () => Promise<T>, afterMs: number): Promise<T> {
+  if (afterMs <= 0) return fn();
+  return new Promise((resolve, reject) => {
+    let running = 0;
+    let settled = false;
+    const attempt = () => {
+      running++;
+      fn().then(
+        (v) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          resolve(v);
+        },
+        (e) => {
+          running--;
+          if (settled || running > 0) return;
+          settled = true;
+          clearTimeout(timer);
+          reject(e);
+        },
+      );
+    };
+    const timer = setTimeout(() => {
+      if (!settled) attempt();
+    }, afterMs);
+    attempt();
+  });
+}
+
+export function requirePrice(value: unknown): number {
+  const price = Number(value);
+  if (!Number.isFinite(price)) throw new Error("bad price");
+  return price;
+}
+
+/** Like {@link requirePrice}, for secondary prices (bid/ask) a ticker may omit. */
+export function optionalPrice(value: unknown): number | undefined {
+  const price = Number(value);
+  return value != null && Number.isFinite(price) && price > 0 ? price : undefined;
+}
+
+/** Parses an exchange timestamp: unix seconds, epoch ms, or an ISO string. Best-effort like volume. */
+export function optionalTimestamp(value: unknown): number | undefined {
+  if (value == null || value === "") return undefined;
+  const n = Number(value);
+  if (Number.isFinite(n)) return n < 1e12 ? n * 1000 : n;
+  const parsed = Date.parse(String(value));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** Volume is best-effort: a missing or malformed figure leaves the sample without one. */
+export function optionalVolume(value: unknown): number | undefined {
+  const volume = Number(value);
+  return value != null && Number.isFinite(volume) && volume >= 0 ? volume : undefined;
+}
@@ -0,0 +1,123 @@
+import { SourceRegistry } from "./registry";
+import { coinbase, coinbaseStream } from "./coinbase";
+import { kraken, krakenStream } from "./kraken";
+import { coingecko } from "./coingecko";
+import { bitstamp } from "./bitstamp";
+import { frankfurter } from "./frankfurter";
+import { loadScenario, mockSources } from "./mock";
+import { loadFixture, replaySources } from "./replay";
+import { LatestPrices, streamingSource, TickerStream } from "./stream";
+import type { PriceSource, StreamFeed } from "./types";
+
+export type { PriceSource, SourceHealth, SourceQuote, StreamStatus } from "./types";
+export { CircuitOpenError, SourceRegistry, StaleSampleError } from "./registry";
+
+const FETCH_TIMEOUT_MS = Number(process.env.FETCH_TIMEOUT_MS ?? 2500);
+const FETCH_RETRIES = Number(process.env.FETCH_RETRIES ?? 1);
+const HEALTH_WINDOW = Number(process.env.HEALTH_WINDOW ?? 100);
+const CIRCUIT_FAILURES = Number(process.env.CIRCUIT_FAILURES ?? 5);
+const CIRCUIT_OPEN_MS = Number(process.env.CIRCUIT_OPEN_MS ?? 30_000);
+const CIRCUIT_MAX_OPEN_MS = Number(process.env.CIRCUIT_MAX_OPEN_MS ?? 600_000);
+const MAX_SAMPLE_STALENESS_MS = Number(process.env.MAX_SAMPLE_STALENESS_MS ?? 120_000);
+// "live" hits the exchanges; "mock" and "replay" answer offline for dev and CI.
+export const PRICE_SOURCE_MODE = process.env.PRICE_SOURCE_MODE ?? "live";
+// Live sources fed by a WebSocket ticker stream instead of per-request polling.
+const PRICE_STREAMS = process.env.PRICE_STREAMS;
+// Base URL replacing every exchange's stream endpoint (feeds connect to `${base}/${id}`), e.g. the local stand-in.
+const PRICE_STREAM_URL = process.env.PRICE_STREAM_URL;
+const STREAM_MAX_AGE_MS = Number(process.env.STREAM_MAX_AGE_MS ?? 10_000);
+const STREAM_IDLE_MS = Number(process.env.STREAM_IDLE_MS ?? 30_000);
+const STREAM_RECONNECT_MS = Number(process.env.STREAM_RECONNECT_MS ?? 1000);
+const STREAM_MAX_RECONNECT_MS = Number(process.env.STREAM_MAX_RECONNECT_MS ?? 30_000);
+
+function csv(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+const liveSources: PriceSource[] = [coinbase, kraken, coingecko, bitstamp, frankfurter];
+const streamFeeds: StreamFeed[] = [coinbaseStream, krakenStream];
+
+const latestPrices = new LatestPrices();
+const priceStreams: TickerStream[] = [];
+
+/** Live sources, with those listed in PRICE_STREAMS reading from their ticker stream. */
+function liveWithStreams(): PriceSource[] {
+  const wanted = csv(PRICE_STREAMS);
+  for (const id of wanted) {
+    if (!streamFeeds.some((f) => f.id === id)) throw new Error(`no stream feed for ${id}`);
+  }
+  return liveSources.map((source) => {
+    const feed = streamFeeds.find((f) => f.id === source.id);
+    if (!feed || !wanted.includes(feed.id)) return source;
+    const stream = new TickerStream(PRICE_STREAM_URL ? { ...feed, url: `${PRICE_STREAM_URL.replace(/\/$/, "")}/${feed.id}` } : feed, latestPrices, {
+      reconnectMs: STREAM_RECONNECT_MS,
+      maxReconnectMs: STREAM_MAX_RECONNECT_MS,
+      idleMs: STREAM_IDLE_MS,
+    });
+    priceStreams.push(stream);
+    return streamingSource(source, stream, latestPrices, STREAM_MAX_AGE_MS);
+  });
+}
+
+function sourcesForMode(): PriceSource[] {
+  switch (PRICE_SOURCE_MODE) {
+    case "live":
+      return liveWithStreams();
+    case "mock":
+      return mockSources(liveSources, loadScenario(process.env.MOCK_SCENARIO));
+    case "replay":
+      if (!process.env.PRICE_FIXTURE) throw new Error("PRICE_SOURCE_MODE=replay needs PRICE_FIXTURE");
+      return replaySources(liveSources, loadFixture(process.env.PRICE_FIXTURE));
+    default:
+      throw new Error(`unknown PRICE_SOURCE_MODE ${PRICE_SOURCE_MODE}`);
+  }
+}
+
+export const priceSources = new SourceRegistry({
+  timeoutMs: FETCH_TIMEOUT_MS,
+  retries: FETCH_RETRIES,
+  healthWindow: HEALTH_WINDOW,
+  circuitFailures: CIRCUIT_FAILURES,
+  circuitOpenMs: CIRCUIT_OPEN_MS,
+  circuitMaxOpenMs: CIRCUIT_MAX_OPEN_MS,
+  maxStalenessMs: MAX_SAMPLE_STALENESS_MS,
+});
+
+/** Value for `id` in a "source:value,..." list, e.g. PRICE_SOURCE_WEIGHTS. */
+function perSource(value: string | undefined, id: string): number | undefined {
+  const entry = csv(value)
+    .map((w) => w.split(":"))
+    .find(([key]) => key === id)?.[1];
+  return entry !== undefined ? Number(entry) : undefined;
+}
+
+for (const source of sourcesForMode()) {
+  const weight = perSource(process.env.PRICE_SOURCE_WEIGHTS, source.id);
+  const rateLimit = perSource(process.env.PRICE_SOURCE_RATE_LIMITS, source.id);
+  const staleness = perSource(process.env.PRICE_SOURCE_MAX_STALENESS_MS, source.id);
+  priceSources.register({
+    ...source,
+    ...(weight !== undefined ? { weight } : {}),
+    ...(rateLimit !== undefined ? { rateLimitPerMin: rateLimit } : {}),
+    ...(staleness !== undefined ? { maxStalenessMs: staleness } : {}),
+  });
+}
+
+// PRICE_SOURCES limits a deployment to the listed adapters; PRICE_SOURCES_DISABLED turns individual ones off.
+const only = csv(process.env.PRICE_SOURCES);
+for (const id of priceSources.enabledIds()) {
+  if (only.length && !only.includes(id)) priceSources.setEnabled(id, false);
+}
+for (const id of csv(process.env.PRICE_SOURCES_DISABLED)) {
+  if (priceSources.get(id)) priceSources.setEnabled(id, false);
+}
+
+/** Opens the ticker streams of enabled sources; they reconnect on their own until the process exits. */
+export function startPriceStreams(onLog: (msg: string) => void): void {
+  for (const stream of priceStreams) {
+    if (priceSources.enabledIds().includes(stream.feed.id)) stream.start(onLog);
+  }
+}
@@ -0,0 +1,65 @@
+import type { PriceSource, StreamFeed } from "./types";
+import { fetchJson, optionalPrice, optionalVolume, requirePrice } from "./http";
+import { parseLevels } from "./order-book";
+
+// Request symbol -> key Kraken uses in the `result` object.
+const PAIRS: Record<string, [string, string]> = {
+  "BTC-USD": ["XBTUSD", "XXBTZUSD"],
+  "BTC-EUR": ["XBTEUR", "XXBTZEUR"],
+  "BTC-GBP": ["XBTGBP", "XXBTZGBP"],
+  "BTC-JPY": ["XBTJPY", "XXBTZJPY"],
+  "BTC-CHF": ["XBTCHF", "XBTCHF"],
+  "ETH-USD": ["ETHUSD", "XETHZUSD"],
+  "ETH-EUR": ["ETHEUR", "XETHZEUR"],
+  "ETH-BTC": ["ETHXBT", "XETHXXBT"],
+  "EUR-USD": ["EURUSD", "ZEURZUSD"],
+  "GBP-USD": ["GBPUSD", "ZGBPZUSD"],
+  "USD-JPY": ["USDJPY", "ZUSDZJPY"],
+  "USD-CHF": ["USDCHF", "USDCHF"],
+  "USD-CAD": ["USDCAD", "ZUSDZCAD"],
+  "AUD-USD": ["AUDUSD", "ZAUDZUSD"],
+};
+
+export const kraken: PriceSource = {
+  id: "kraken",
+  pairs: Object.keys(PAIRS),
+  weight: 1,
+  rateLimitPerMin: 60,
+  fetch: (pair, timeoutMs) => fetchJson(`https://api.kraken.com/0/public/Ticker?pair=${PAIRS[pair][0]}`, timeoutMs),
+  priceTypes: ["last", "bid", "ask", "mid", "depth_mid"],
+  parse: (raw: any, pair) => {
+    const ticker = raw?.result?.[PAIRS[pair][1]];
+    // c = last trade [price, lot volume]; b/a = best bid/ask [price, ...]; v = volume [today, last 24h].
+    // The ticker carries no timestamp.
+    return {
+      price: requirePrice(ticker?.c?.[0]),
+      bid: optionalPrice(ticker?.b?.[0]),
+      ask: optionalPrice(ticker?.a?.[0]),
+      volume: optionalVolume(ticker?.v?.[1]),
+    };
+  },
+  fetchBook: (pair, timeoutMs) => fetchJson(`https://api.kraken.com/0/public/Depth?pair=${PAIRS[pair][0]}&count=100`, timeoutMs),
+  parseBook: (raw: any, pair) => {
+    const book = raw?.result?.[PAIRS[pair][1]];
+    return { bids: parseLevels(book?.bids), asks: parseLevels(book?.asks) };
+  },
+};
+
+/**
+ * WebSocket v2 feed. The `ticker` channel sends a snapshot on subscribe and an update on
+ * every trade; v2 symbols are the request pair with a slash (BTC/USD) and carry no timestamp.
+ */
+export const krakenStream: StreamFeed = {
+  id: "kraken",
+  url: "wss://ws.kraken.com/v2",
+  pairs: Object.keys(PAIRS),
+  subscribe: (pairs) => [{ method: "subscribe", params: { channel: "ticker", symbol: pairs.map((p) => p.replace("-", "/")) } }],
+  parse: (msg: any) => {
+    if (msg?.method === "subscribe" && msg.success === false) throw new Error(msg.error ?? "subscribe failed");
+    if (msg?.channel !== "ticker" || !Array.isArray(msg.data)) return [];
+    return msg.data.map((t: any) => ({
+      pair: String(t?.symbol).replace("/", "-"),
+      quote: { price: requirePrice(t?.last), bid: optionalPrice(t?.bid), ask: optionalPrice(t?.ask), volume: optionalVolume(t?.volume) },
+    }));
+  },
+};
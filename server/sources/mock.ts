@@ -0,0 +1,231 @@
+import { readFileSync } from "fs";
+import type { PriceSource } from "./types";
+import { optionalPrice, optionalTimestamp, optionalVolume, requirePrice } from "./http";
+import { parseLevels } from "./order-book";
+
+export interface MockSourceBehavior {
+  /** Simulated response time, drawn uniformly from [min, max]. */
+  latencyMs?: [number, number];
+  /** Probability (0-1) that a fetch fails. */
+  failureRate?: number;
+  /** Constant relative offset from the market price, e.g. 0.002 quotes 0.2% high. */
+  skew?: number;
+  /** Relative per-fetch noise around the market price. */
+  noise?: number;
+  /** Reported 24h base volume (default 1000); 0 reports none. */
+  volume?: number;
+  /** How far the reported exchange time trails the fetch, e.g. to simulate a stalled feed. */
+  lagMs?: number;
+  /** Relative bid/ask spread around the quoted price (default 0.0004). */
+  spread?: number;
+}
+
+export interface MockSpike {
+  /** Start, in ms since the scenario started. */
+  atMs: number;
+  durationMs: number;
+  /** Relative move while the spike lasts, e.g. -0.1 for a 10% drop. */
+  pct: number;
+  /** Asset whose USD value moves; omit to move every pair as quoted. */
+  asset?: string;
+  /** Limits the spike to one source, i.e. a bad feed rather than a market move. */
+  source?: string;
+}
+
+export interface MockScenario {
+  seed: number;
+  /** Interval between random-walk steps. */
+  stepMs: number;
+  /** Relative standard deviation of each walk step. */
+  volatility: number;
+  /** Starting USD value of every asset; pair prices are base/quote of these. */
+  prices: Record<string, number>;
+  sources: Record<string, MockSourceBehavior>;
+  spikes: MockSpike[];
+}
+
+export const DEFAULT_SCENARIO: MockScenario = {
+  seed: 1,
+  stepMs: 1000,
+  volatility: 0.0005,
+  prices: {
+    USD: 1,
+    BTC: 65000,
+    ETH: 3200,
+    EUR: 1.08,
+    GBP: 1.27,
+    JPY: 0.0067,
+    CHF: 1.13,
+    CAD: 0.73,
+    AUD: 0.66,
+  },
+  // Mirror the live adapters that don't report venue volume.
+  sources: { coingecko: { volume: 0 }, frankfurter: { volume: 0 } },
+  spikes: [],
+};
+
+/** mulberry32: small, fast and good enough to make runs reproducible from a seed. */
+function prng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(rand: () => number): number {
+  const u = rand() || Number.MIN_VALUE;
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Waits out a simulated response time, failing like a real fetch when it exceeds the timeout. */
+export async function simulateLatency(latencyMs: number, timeoutMs: number): Promise<void> {
+  if (latencyMs > timeoutMs) {
+    await sleep(timeoutMs);
+    throw new Error("timeout");
+  }
+  if (latencyMs > 0) await sleep(latencyMs);
+}
+
+export function loadScenario(path: string | undefined): MockScenario {
+  if (!path) return DEFAULT_SCENARIO;
+  const custom = JSON.parse(readFileSync(path, "utf8")) as Partial<MockScenario>;
+  return {
+    ...DEFAULT_SCENARIO,
+    ...custom,
+    prices: { ...DEFAULT_SCENARIO.prices, ...custom.prices },
+    sources: { ...DEFAULT_SCENARIO.sources, ...custom.sources },
+  };
+}
+
+/**
+ * Scripted market shared by every mock source: each asset's USD value follows a seeded
+ * random walk advanced in fixed steps, so all pairs (and triangulated crosses) stay
+ * consistent with each other.
+ */
+export class MockMarket {
+  private startedAt = Date.now();
+  private step = 0;
+  private usd: Record<string, number>;
+  private walk: () => number;
+  readonly rand: () => number;
+
+  constructor(private scenario: MockScenario) {
+    this.usd = { ...scenario.prices };
+    this.walk = prng(scenario.seed);
+    this.rand = prng(scenario.seed ^ 0x9e3779b9);
+  }
+
+  elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  quotes(pair: string): boolean {
+    const [base, quote] = pair.split("-");
+    return this.usd[base] !== undefined && this.usd[quote] !== undefined;
+  }
+
+  price(pair: string, source: string): number {
+    this.advance();
+    const [base, quote] = pair.split("-");
+    return (this.usd[base] / this.usd[quote]) * this.spikeFactor(base, quote, source);
+  }
+
+  private advance(): void {
+    const target = Math.floor(this.elapsedMs() / this.scenario.stepMs);
+    for (; this.step < target; this.step++) {
+      for (const asset of Object.keys(this.usd).sort()) {
+        if (asset === "USD") continue;
+        this.usd[asset] *= 1 + this.scenario.volatility * gaussian(this.walk);
+      }
+    }
+  }
+
+  private spikeFactor(base: string, quote: string, source: string): number {
+    const now = this.elapsedMs();
+    let factor = 1;
+    for (const s of this.scenario.spikes) {
+      if (now < s.atMs || now >= s.atMs + s.durationMs) continue;
+      if (s.source && s.source !== source) continue;
+      if (!s.asset || s.asset === base) factor *= 1 + s.pct;
+      else if (s.asset === quote) factor /= 1 + s.pct;
+    }
+    return factor;
+  }
+}
+
+// Synthetic book shape: levels step away from the touch, each deeper level holding more size.
+const BOOK_LEVELS = 20;
+const BOOK_LEVEL_STEP = 0.0002;
+const BOOK_LEVEL_NOTIONAL = 5000;
+
+function mockBook(mid: number, spread: number): { bids: [number, number][]; asks: [number, number][] } {
+  const bids: [number, number][] = [];
+  const asks: [number, number][] = [];
+  for (let i = 0; i < BOOK_LEVELS; i++) {
+    const offset = spread / 2 + i * BOOK_LEVEL_STEP;
+    const size = (BOOK_LEVEL_NOTIONAL * (1 + i)) / mid;
+    bids.push([mid * (1 - offset), size]);
+    asks.push([mid * (1 + offset), size]);
+  }
+  return { bids, asks };
+}
+
+/**
+ * Stand-ins for the live adapters that keep their ids, weights and the pairs the scenario
+ * can price, but answer from a {@link MockMarket} with scripted latency and failures.
+ */
+export function mockSources(live: PriceSource[], scenario: MockScenario): PriceSource[] {
+  const market = new MockMarket(scenario);
+  return live.map((source) => {
+    const behavior = scenario.sources[source.id] ?? {};
+    const [minLatency, maxLatency] = behavior.latencyMs ?? [20, 120];
+    const spread = behavior.spread ?? 0.0004;
+
+    // Shared by ticker and book fetches: latency, failures, and the source's view of the price.
+    async function observe(pair: string, timeoutMs: number): Promise<number> {
+      await simulateLatency(minLatency + market.rand() * (maxLatency - minLatency), timeoutMs);
+      if (market.rand() < (behavior.failureRate ?? 0)) throw new Error("HTTP 503");
+      const noise = (behavior.noise ?? 0.0002) * gaussian(market.rand);
+      return market.price(pair, source.id) * (1 + (behavior.skew ?? 0) + noise);
+    }
+
+    return {
+      id: source.id,
+      pairs: source.pairs.filter((p) => market.quotes(p)),
+      weight: source.weight,
+      // Every mock venue has a book, so any price type can be exercised offline.
+      priceTypes: ["last", "bid", "ask", "mid", "depth_mid"],
+      fetch: async (pair, timeoutMs) => {
+        const price = await observe(pair, timeoutMs);
+        const volume = behavior.volume ?? 1000;
+        return {
+          price,
+          bid: price * (1 - spread / 2),
+          ask: price * (1 + spread / 2),
+          volume: volume > 0 ? volume * (0.9 + 0.2 * market.rand()) : undefined,
+          time: Date.now() - (behavior.lagMs ?? 0),
+        };
+      },
+      parse: (raw: any) => ({
+        price: requirePrice(raw?.price),
+        bid: optionalPrice(raw?.bid),
+        ask: optionalPrice(raw?.ask),
+        volume: optionalVolume(raw?.volume),
+        exchangeTs: optionalTimestamp(raw?.time),
+      }),
+      fetchBook: async (pair, timeoutMs) => ({
+        ...mockBook(await observe(pair, timeoutMs), spread),
+        time: Date.now() - (behavior.lagMs ?? 0),
+      }),
+      parseBook: (raw: any) => ({ bids: parseLevels(raw?.bids), asks: parseLevels(raw?.asks), exchangeTs: optionalTimestamp(raw?.time) }),
+    };
+  });
+}
@@ -0,0 +1,37 @@
+import type { OrderBook } from "./types";
+
+/** Parses exchange levels like [["65000.1", "0.25", ...], ...] into numeric [price, size] pairs, dropping bad rows. */
+export function parseLevels(raw: unknown): [number, number][] {
+  if (!Array.isArray(raw)) throw new Error("bad order book");
+  return raw
+    .map((level: any) => [Number(level?.[0]), Number(level?.[1])] as [number, number])
+    .filter(([price, size]) => Number.isFinite(price) && price > 0 && Number.isFinite(size) && size > 0);
+}
+
+/** Average price paid filling `notional` (quote currency) against `levels`, walked best first. */
+function fillPrice(levels: [number, number][], notional: number): number {
+  let remaining = notional;
+  let filled = 0;
+  for (const [price, size] of levels) {
+    const cost = price * size;
+    if (cost >= remaining) {
+      filled += remaining / price;
+      remaining = 0;
+      break;
+    }
+    filled += size;
+    remaining -= cost;
+  }
+  if (remaining > 0) throw new Error("order book too thin for notional");
+  return notional / filled;
+}
+
+/**
+ * Midpoint of the average prices for buying and for selling `notional` against the book.
+ * Unlike the top-of-book mid, a lone small order at a silly price barely moves it.
+ */
+export function depthWeightedMid(book: OrderBook, notional: number): number {
+  const asks = [...book.asks].sort((a, b) => a[0] - b[0]);
+  const bids = [...book.bids].sort((a, b) => b[0] - a[0]);
+  return (fillPrice(asks, notional) + fillPrice(bids, notional)) / 2;
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitOpenError, SourceRegistry, StaleSampleError } from "./registry";
+import type { PriceSource } from "./types";
+
+const OPTIONS = {
+  timeoutMs: 1000,
+  retries: 0,
+  healthWindow: 10,
+  circuitFailures: 3,
+  circuitOpenMs: 1000,
+  circuitMaxOpenMs: 3000,
+  maxStalenessMs: 60_000,
+};
+
+/** A source whose next answers are scripted: a price, or an error to throw. */
+function scriptedSource(): PriceSource & { answers: (number | Error)[]; calls: number } {
+  const source = {
+    id: "test",
+    pairs: ["BTC-USD"],
+    weight: 1,
+    priceTypes: ["last", "depth_mid"] as PriceSource["priceTypes"],
+    answers: [] as (number | Error)[],
+    calls: 0,
+    fetch: async () => {
+      source.calls++;
+      const next = source.answers.shift() ?? 100;
+      if (next instanceof Error) throw next;
+      return { price: next, time: Date.now() };
+    },
+    parse: (raw: any) => ({ price: raw.price, exchangeTs: raw.time }),
+    fetchBook: async () => ({ bids: [[99, 1]], asks: [[101, 1]] }),
+    parseBook: (raw: any) => raw,
+  };
+  return source;
+}
+
+function setup() {
+  const registry = new SourceRegistry(OPTIONS);
+  const source = scriptedSource();
+  registry.register(source);
+  return { registry, source, health: () => registry.healthReport().test };
+}
+
+async function fetchTimes(registry: SourceRegistry, n: number) {
+  for (let i = 0; i < n; i++) await registry.fetchSample("test", "BTC-USD").catch(() => {});
+}
+
+describe("SourceRegistry circuit breaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1_000_000);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens after consecutive failures and stops calling the source", async () => {
+    const { registry, source, health } = setup();
+    source.answers = [new Error("down"), new Error("down"), new Error("down")];
+    await fetchTimes(registry, 3);
+
+    expect(health()).toMatchObject({ circuit: "open", consecutiveFailures: 3, nextProbeAt: 1_001_000 });
+    await expect(registry.fetchSample("test", "BTC-USD")).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(source.calls).toBe(3);
+  });
+
+  it("a success before the threshold resets the failure streak", async () => {
+    const { registry, source, health } = setup();
+    source.answers = [new Error("down"), new Error("down"), 100, new Error("down")];
+    await fetchTimes(registry, 4);
+
+    expect(health()).toMatchObject({ circuit: "closed", consecutiveFailures: 1 });
+  });
+
+  it("allows one probe after the cool-down and closes on success", async () => {
+    const { registry, source, health } = setup();
+    source.answers = [new Error("down"), new Error("down"), new Error("down")];
+    await fetchTimes(registry, 3);
+
+    vi.setSystemTime(1_001_000);
+    expect(registry.isAvailable("test")).toBe(true);
+    const probe = registry.fetchSample("test", "BTC-USD");
+    expect(health().circuit).toBe("half_open");
+    // Others are turned away while the probe is in flight.
+    await expect(registry.fetchSample("test", "BTC-USD")).rejects.toBeInstanceOf(CircuitOpenError);
+
+    await expect(probe).resolves.toMatchObject({ value: 100 });
+    expect(health()).toMatchObject({ circuit: "closed", consecutiveFailures: 0, nextProbeAt: null });
+  });
+
+  it("reopens on a failed probe with the cool-down doubled, up to the maximum", async () => {
+    const { registry, source, health } = setup();
+    source.answers = Array.from({ length: 6 }, () => new Error("down"));
+    await fetchTimes(registry, 3);
+
+    vi.setSystemTime(1_001_000);
+    await fetchTimes(registry, 1);
+    expect(health()).toMatchObject({ circuit: "open", nextProbeAt: 1_003_000 });
+
+    vi.setSystemTime(1_003_000);
+    await fetchTimes(registry, 1);
+    expect(health().nextProbeAt).toBe(1_006_000);
+
+    // A success resets the cool-down for the next time the circuit opens.
+    vi.setSystemTime(1_006_000);
+    source.answers = [100, new Error("down"), new Error("down"), new Error("down")];
+    await registry.fetchSample("test", "BTC-USD");
+    await fetchTimes(registry, 3);
+    expect(health().nextProbeAt).toBe(1_007_000);
+  });
+
+  it("counts a stale exchange time as a failure", async () => {
+    const { registry, source, health } = setup();
+    source.parse = (raw: any) => ({ price: raw.price, exchangeTs: raw.time - 120_000 });
+
+    await expect(registry.fetchSample("test", "BTC-USD")).rejects.toBeInstanceOf(StaleSampleError);
+    expect(health()).toMatchObject({ failures: 1, consecutiveFailures: 1 });
+  });
+
+  it("does not hold a book too thin for the notional against the source", async () => {
+    const { registry, health } = setup();
+    for (let i = 0; i < 5; i++) {
+      await expect(registry.fetchSample("test", "BTC-USD", "depth_mid", 1e9)).rejects.toThrow(/too thin/);
+    }
+
+    expect(health()).toMatchObject({ circuit: "closed", failures: 0, successes: 5 });
+  });
+
+  it("tracks success rate over the recent window", async () => {
+    const { registry, source, health } = setup();
+    source.answers = [100, new Error("down"), 100, 100];
+    await fetchTimes(registry, 4);
+
+    expect(health().successRate).toBe(0.75);
+  });
+});
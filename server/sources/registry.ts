@@ -0,0 +1,251 @@
+import type { PriceSample, PriceType } from "@shared/schema";
+import type { OrderBook, PriceSource, SourceHealth, SourceQuote } from "./types";
+import { withRetries } from "./http";
+import { depthWeightedMid } from "./order-book";
+
+export interface RegistryOptions {
+  timeoutMs: number;
+  retries: number;
+  /** How many recent fetches success rate and latency percentiles are computed over. */
+  healthWindow: number;
+  /** Consecutive failures that open a source's circuit. */
+  circuitFailures: number;
+  /** First cool-down before an open circuit is probed; doubles after each failed probe. */
+  circuitOpenMs: number;
+  circuitMaxOpenMs: number;
+  /** Oldest exchange-reported time accepted for a sample, unless the source sets its own. */
+  maxStalenessMs: number;
+}
+
+/** Thrown instead of fetching while a source's circuit is open. */
+export class CircuitOpenError extends Error {
+  constructor(id: string) {
+    super(`circuit open for ${id}`);
+  }
+}
+
+/** Thrown when the exchange's own timestamp shows the quote is older than the staleness bound. */
+export class StaleSampleError extends Error {
+  constructor(id: string, ageMs: number) {
+    super(`${id} quote is ${Math.round(ageMs / 1000)}s old`);
+  }
+}
+
+interface SourceState {
+  health: SourceHealth;
+  /** Most recent outcomes, oldest first, capped at `healthWindow`. */
+  recent: { ok: boolean; latencyMs: number }[];
+  openMs: number;
+}
+
+function supports(source: PriceSource, priceType: PriceType): boolean {
+  return (source.priceTypes ?? ["last"]).includes(priceType);
+}
+
+/** What one fetch returned: the order book for depth_mid, the ticker otherwise. */
+type Reading = { book: OrderBook; exchangeTs?: number } | { quote: SourceQuote; exchangeTs?: number };
+
+/** Fetches what a price of `priceType` is read from. Every error here is the source's fault. */
+async function read(source: PriceSource, pair: string, priceType: PriceType, timeoutMs: number): Promise<Reading> {
+  if (priceType === "depth_mid") {
+    if (!source.fetchBook || !source.parseBook) throw new Error(`${source.id} has no order book`);
+    const book = source.parseBook(await source.fetchBook(pair, timeoutMs), pair);
+    return { book, exchangeTs: book.exchangeTs };
+  }
+
+  const quote = source.parse(await source.fetch(pair, timeoutMs), pair);
+  if (priceType !== "last" && (quote.bid === undefined || quote.ask === undefined)) throw new Error(`${source.id} returned no bid/ask`);
+  return { quote, exchangeTs: quote.exchangeTs };
+}
+
+/** The requested price from a reading; throws when the request can't be served, e.g. a book too thin for `notional`. */
+function priceOf(reading: Reading, priceType: PriceType, notional: number | undefined): number {
+  if ("book" in reading) return depthWeightedMid(reading.book, notional!);
+  const { price, bid, ask } = reading.quote;
+  if (priceType === "last") return price;
+  return priceType === "bid" ? bid! : priceType === "ask" ? ask! : (bid! + ask!) / 2;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Holds the price source adapters a deployment can use. Adapters register themselves
+ * once; which of them actually serve requests is a per-deployment enable/disable switch.
+ */
+export class SourceRegistry {
+  private sources = new Map<string, PriceSource>();
+  private disabled = new Set<string>();
+  private state = new Map<string, SourceState>();
+
+  constructor(private opts: RegistryOptions) {}
+
+  register(source: PriceSource): void {
+    if (this.sources.has(source.id)) throw new Error(`price source ${source.id} already registered`);
+    this.sources.set(source.id, source);
+    this.state.set(source.id, {
+      health: {
+        enabled: true,
+        successes: 0,
+        failures: 0,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        consecutiveFailures: 0,
+        successRate: null,
+        latencyMs: null,
+        circuit: "closed",
+        nextProbeAt: null,
+      },
+      recent: [],
+      openMs: this.opts.circuitOpenMs,
+    });
+  }
+
+  get(id: string): PriceSource | undefined {
+    return this.sources.get(id);
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    if (!this.sources.has(id)) throw new Error(`unknown price source ${id}`);
+    if (enabled) this.disabled.delete(id);
+    else this.disabled.add(id);
+    this.state.get(id)!.health.enabled = enabled;
+  }
+
+  isEnabled(id: string): boolean {
+    return this.sources.has(id) && !this.disabled.has(id);
+  }
+
+  /** Enabled source ids, optionally narrowed to those quoting `pair` (as `priceType`). */
+  enabledIds(pair?: string, priceType?: PriceType): string[] {
+    const out: string[] = [];
+    this.sources.forEach((s, id) => {
+      if (this.disabled.has(id)) return;
+      if (pair && !s.pairs.includes(pair)) return;
+      if (priceType && !supports(s, priceType)) return;
+      out.push(id);
+    });
+    return out;
+  }
+
+  /** Every pair quoted by at least one enabled source. */
+  pairs(): string[] {
+    const out = new Set<string>();
+    this.sources.forEach((s, id) => {
+      if (!this.disabled.has(id)) s.pairs.forEach((p) => out.add(p));
+    });
+    return Array.from(out).sort();
+  }
+
+  weightOf(id: string): number {
+    return this.sources.get(id)?.weight ?? 1;
+  }
+
+  rateLimitOf(id: string): number | undefined {
+    return this.sources.get(id)?.rateLimitPerMin;
+  }
+
+  /** False while the circuit is open and not yet due for a probe, or while a probe is in flight. */
+  isAvailable(id: string, now = Date.now()): boolean {
+    const h = this.state.get(id)?.health;
+    if (!h) return false;
+    if (h.circuit === "closed") return true;
+    return h.circuit === "open" && now >= (h.nextProbeAt ?? 0);
+  }
+
+  async fetchSample(id: string, pair: string, priceType: PriceType = "last", notional?: number): Promise<PriceSample> {
+    const source = this.sources.get(id);
+    if (!source || this.disabled.has(id)) throw new Error("unknown source");
+    if (!source.pairs.includes(pair)) throw new Error(`${id} does not quote ${pair}`);
+    if (!supports(source, priceType)) throw new Error(`${id} does not quote ${priceType} prices`);
+    if (priceType === "depth_mid" && !(notional && notional > 0)) throw new Error("depth_mid needs a notional");
+
+    const h = this.state.get(id)!.health;
+    if (!this.isAvailable(id)) throw new CircuitOpenError(id);
+    // The first fetch after the cool-down is the probe; others are turned away until it settles.
+    if (h.circuit === "open") h.circuit = "half_open";
+
+    const started = Date.now();
+    // A probe gets one attempt: retrying a source that has just been failing only delays the verdict.
+    const retries = h.circuit === "half_open" ? 0 : this.opts.retries;
+    let reading: Reading;
+    let ts: number;
+    let latencyMs: number;
+    try {
+      reading = await withRetries(() => read(source, pair, priceType, this.opts.timeoutMs), retries);
+      latencyMs = Date.now() - started;
+      // A streamed quote is as old as its arrival, not the read of the latest-price table.
+      ts = ("quote" in reading && reading.quote.receivedAt) || Date.now();
+      // A stalled matching engine keeps serving its last ticker; judge freshness by the exchange's clock.
+      const maxStalenessMs = source.maxStalenessMs ?? this.opts.maxStalenessMs;
+      if (reading.exchangeTs !== undefined && ts - reading.exchangeTs > maxStalenessMs) throw new StaleSampleError(id, ts - reading.exchangeTs);
+    } catch (e: any) {
+      this.record(id, e?.message ?? String(e), Date.now() - started);
+      throw e;
+    }
+    this.record(id, null, latencyMs);
+
+    // The source answered; a price the request can't get from the answer is not held against it.
+    const sample: PriceSample = { source: id, value: priceOf(reading, priceType, notional), ts, latencyMs };
+    if (reading.exchangeTs !== undefined) sample.exchangeTs = reading.exchangeTs;
+    if ("quote" in reading && reading.quote.volume !== undefined) sample.volume = reading.quote.volume;
+    return sample;
+  }
+
+  /** Probes every open circuit whose cool-down has elapsed, using the source's first pair. */
+  probeOpenCircuits(): void {
+    this.state.forEach(({ health }, id) => {
+      if (health.circuit !== "open" || this.disabled.has(id) || !this.isAvailable(id)) return;
+      this.fetchSample(id, this.sources.get(id)!.pairs[0]).catch(() => {});
+    });
+  }
+
+  healthReport(): Record<string, SourceHealth> {
+    const out: Record<string, SourceHealth> = {};
+    this.state.forEach(({ health }, id) => {
+      const stream = this.sources.get(id)?.streamStatus?.();
+      out[id] = { ...health, latencyMs: health.latencyMs && { ...health.latencyMs }, ...(stream ? { stream } : {}) };
+    });
+    return out;
+  }
+
+  private record(id: string, error: string | null, latencyMs: number): void {
+    const state = this.state.get(id);
+    if (!state) return;
+    const h = state.health;
+    const now = Date.now();
+
+    state.recent.push({ ok: error === null, latencyMs });
+    if (state.recent.length > this.opts.healthWindow) state.recent.shift();
+    h.successRate = state.recent.filter((r) => r.ok).length / state.recent.length;
+    const latencies = state.recent
+      .filter((r) => r.ok)
+      .map((r) => r.latencyMs)
+      .sort((a, b) => a - b);
+    h.latencyMs = latencies.length ? { p50: percentile(latencies, 0.5), p90: percentile(latencies, 0.9), p99: percentile(latencies, 0.99) } : null;
+
+    if (error === null) {
+      h.successes++;
+      h.lastSuccessAt = now;
+      h.consecutiveFailures = 0;
+      h.circuit = "closed";
+      h.nextProbeAt = null;
+      state.openMs = this.opts.circuitOpenMs;
+      return;
+    }
+
+    h.failures++;
+    h.lastFailureAt = now;
+    h.lastError = error;
+    h.consecutiveFailures++;
+    if (h.circuit === "half_open") {
+      state.openMs = Math.min(state.openMs * 2, this.opts.circuitMaxOpenMs);
+    }
+    if (h.circuit === "half_open" || h.consecutiveFailures >= this.opts.circuitFailures) {
+      h.circuit = "open";
+      h.nextProbeAt = now + state.openMs;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { readFileSync } from "fs";
+import type { PriceSource } from "./types";
+import { optionalTimestamp, optionalVolume, requirePrice } from "./http";
+import { simulateLatency } from "./mock";
+
+export interface FixtureSample {
+  source: string;
+  pair: string;
+  /** When the sample was taken, in ms since the recording started. */
+  offsetMs: number;
+  value?: number;
+  volume?: number;
+  /** How far the exchange-reported time trailed the receive time, when there was one. */
+  exchangeLagMs?: number;
+  /** Set instead of `value` when the recorded fetch failed. */
+  error?: string;
+  latencyMs?: number;
+}
+
+export interface PriceFixture {
+  recordedAt: number;
+  samples: FixtureSample[];
+}
+
+export function loadFixture(path: string): PriceFixture {
+  const fixture = JSON.parse(readFileSync(path, "utf8")) as PriceFixture;
+  if (!Array.isArray(fixture.samples) || !fixture.samples.length) throw new Error(`fixture ${path} has no samples`);
+  return fixture;
+}
+
+/**
+ * Plays a recorded fixture back on a loop. Each fetch answers with the last sample the
+ * source recorded for that pair at the same point in the recording, including its
+ * latency and any error.
+ */
+export function replaySources(live: PriceSource[], fixture: PriceFixture): PriceSource[] {
+  const startedAt = Date.now();
+  const durationMs = Math.max(...fixture.samples.map((s) => s.offsetMs)) + 1;
+  const timelines = new Map<string, FixtureSample[]>();
+  for (const s of [...fixture.samples].sort((a, b) => a.offsetMs - b.offsetMs)) {
+    const key = `${s.source}:${s.pair}`;
+    if (!timelines.has(key)) timelines.set(key, []);
+    timelines.get(key)!.push(s);
+  }
+
+  function sampleAt(source: string, pair: string): FixtureSample {
+    const timeline = timelines.get(`${source}:${pair}`)!;
+    const offset = (Date.now() - startedAt) % durationMs;
+    let current = timeline[0];
+    for (const s of timeline) {
+      if (s.offsetMs > offset) break;
+      current = s;
+    }
+    return current;
+  }
+
+  return live.map((source) => ({
+    id: source.id,
+    pairs: source.pairs.filter((p) => timelines.has(`${source.id}:${p}`)),
+    weight: source.weight,
+    fetch: async (pair: string, timeoutMs: number) => {
+      const sample = sampleAt(source.id, pair);
+      await simulateLatency(sample.latencyMs ?? 0, timeoutMs);
+      if (sample.error) throw new Error(sample.error);
+      const time = sample.exchangeLagMs !== undefined ? Date.now() - sample.exchangeLagMs : undefined;
+      return { price: sample.value, volume: sample.volume, time };
+    },
+    parse: (raw: any) => ({ price: requirePrice(raw?.price), volume: optionalVolume(raw?.volume), exchangeTs: optionalTimestamp(raw?.time) }),
+  }));
+}
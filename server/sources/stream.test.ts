@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import { LatestPrices, TickerStream } from "./stream";
+import type { StreamFeed } from "./types";
+
+describe("LatestPrices", () => {
+  it("serves a price only while it is younger than maxAgeMs", () => {
+    const table = new LatestPrices();
+    table.set("x", "BTC-USD", { price: 100 }, 1000);
+
+    expect(table.get("x", "BTC-USD", 500, 1500)?.quote.price).toBe(100);
+    expect(table.get("x", "BTC-USD", 500, 1501)).toBeNull();
+  });
+
+  it("ignores a quote older in exchange time than the one it holds", () => {
+    const table = new LatestPrices();
+    table.set("x", "BTC-USD", { price: 100, exchangeTs: 2000 }, 1000);
+    table.set("x", "BTC-USD", { price: 90, exchangeTs: 1000 }, 1100);
+
+    expect(table.get("x", "BTC-USD", 1000, 1100)).toMatchObject({ quote: { price: 100 }, receivedAt: 1000 });
+  });
+
+  it("clears only the given source", () => {
+    const table = new LatestPrices();
+    table.set("x", "BTC-USD", { price: 100 });
+    table.set("x", "ETH-USD", { price: 10 });
+    table.set("xy", "BTC-USD", { price: 101 });
+    table.clear("x");
+
+    expect(table.count("x")).toBe(0);
+    expect(table.count("xy")).toBe(1);
+  });
+});
+
+describe("TickerStream", () => {
+  let server: WebSocketServer | null = null;
+  let stream: TickerStream | null = null;
+
+  afterEach(async () => {
+    stream?.stop();
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    server = null;
+    stream = null;
+  });
+
+  /** A feed whose messages are `{ pair, price }`, served from a local server that ticks once per subscribe. */
+  async function setup() {
+    const sockets: WebSocket[] = [];
+    server = new WebSocketServer({ port: 0 });
+    server.on("connection", (ws) => {
+      sockets.push(ws);
+      ws.on("message", () => {
+        ws.send("not json");
+        ws.send(JSON.stringify({ pair: "BTC-USD", price: 100 + sockets.length }));
+      });
+    });
+    await new Promise((resolve) => server!.on("listening", resolve));
+
+    const feed: StreamFeed = {
+      id: "test",
+      url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      pairs: ["BTC-USD"],
+      subscribe: (pairs) => [{ subscribe: pairs }],
+      parse: (msg) => (msg.pair ? [{ pair: msg.pair, quote: { price: msg.price } }] : []),
+    };
+    const table = new LatestPrices();
+    stream = new TickerStream(feed, table, { reconnectMs: 100, maxReconnectMs: 400, idleMs: 5000 });
+    return { sockets, table, stream };
+  }
+
+  async function until(check: () => boolean): Promise<void> {
+    for (let i = 0; i < 200 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(check()).toBe(true);
+  }
+
+  it("subscribes on connect and writes updates, skipping frames it cannot parse", async () => {
+    const { table, stream } = await setup();
+    stream.start();
+
+    await until(() => !!table.get("test", "BTC-USD", 1000));
+    expect(table.get("test", "BTC-USD", 1000)?.quote.price).toBe(101);
+    expect(stream.status()).toMatchObject({ state: "open", livePairs: 1 });
+    expect(stream.status().lastError).toMatch(/JSON/);
+  });
+
+  it("clears the source's prices on a drop and resubscribes after reconnecting", async () => {
+    const { sockets, table, stream } = await setup();
+    stream.start();
+    await until(() => !!table.get("test", "BTC-USD", 1000));
+
+    sockets[0].terminate();
+    await until(() => stream.status().reconnects === 1);
+    expect(stream.status().state).toBe("closed");
+    expect(table.count("test")).toBe(0);
+
+    await until(() => table.get("test", "BTC-USD", 1000)?.quote.price === 102);
+  });
+});
@@ -0,0 +1,181 @@
+import { WebSocket } from "ws";
+import type { StreamStatus } from "@shared/schema";
+import type { PriceSource, SourceQuote, StreamFeed } from "./types";
+
+export interface StreamOptions {
+  /** First reconnect delay; doubles per failed attempt up to `maxReconnectMs`. */
+  reconnectMs: number;
+  maxReconnectMs: number;
+  /** Reconnect when nothing (ticker or heartbeat) arrives for this long. */
+  idleMs: number;
+}
+
+interface LatestPrice {
+  quote: SourceQuote;
+  receivedAt: number;
+}
+
+/** Latest streamed quote per source and pair, as last received. */
+export class LatestPrices {
+  private prices = new Map<string, LatestPrice>();
+
+  /** The latest quote for `source`/`pair` if it arrived within `maxAgeMs`. */
+  get(source: string, pair: string, maxAgeMs: number, now = Date.now()): LatestPrice | null {
+    const entry = this.prices.get(this.key(source, pair));
+    return entry && now - entry.receivedAt <= maxAgeMs ? entry : null;
+  }
+
+  set(source: string, pair: string, quote: SourceQuote, receivedAt = Date.now()): void {
+    const key = this.key(source, pair);
+    const current = this.prices.get(key)?.quote;
+    // Feeds can replay an older ticker after a resubscribe; never step back in exchange time.
+    if (current?.exchangeTs && quote.exchangeTs && quote.exchangeTs < current.exchangeTs) return;
+    this.prices.set(key, { quote, receivedAt });
+  }
+
+  /** Forgets every price from `source`, e.g. when its connection drops and updates may have been missed. */
+  clear(source: string): void {
+    const prefix = `${source}:`;
+    Array.from(this.prices.keys()).forEach((key) => {
+      if (key.startsWith(prefix)) this.prices.delete(key);
+    });
+  }
+
+  count(source: string): number {
+    const prefix = `${source}:`;
+    return Array.from(this.prices.keys()).filter((key) => key.startsWith(prefix)).length;
+  }
+
+  private key(source: string, pair: string): string {
+    return `${source}:${pair}`;
+  }
+}
+
+/**
+ * Keeps one WebSocket subscription to an exchange ticker feed open, writing every update
+ * into a {@link LatestPrices} table. A dropped or silent connection is replaced with
+ * exponential backoff; the source's prices are cleared at the drop and refilled from the
+ * snapshot the exchange sends on resubscribe, so nothing from before the gap is served.
+ */
+export class TickerStream {
+  private ws: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private stopped = true;
+  private onLog: (msg: string) => void = () => {};
+  private state: StreamStatus["state"] = "closed";
+  private connectedAt: number | null = null;
+  private lastMessageAt: number | null = null;
+  private reconnects = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    readonly feed: StreamFeed,
+    private table: LatestPrices,
+    private opts: StreamOptions,
+  ) {}
+
+  start(onLog?: (msg: string) => void): void {
+    if (!this.stopped) return;
+    if (onLog) this.onLog = onLog;
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.disconnect();
+  }
+
+  status(): StreamStatus {
+    return {
+      state: this.state,
+      connectedAt: this.connectedAt,
+      lastMessageAt: this.lastMessageAt,
+      reconnects: this.reconnects,
+      lastError: this.lastError,
+      livePairs: this.table.count(this.feed.id),
+    };
+  }
+
+  private connect(): void {
+    this.reconnectTimer = null;
+    this.state = "connecting";
+    const ws = new WebSocket(this.feed.url);
+    this.ws = ws;
+    this.touch();
+
+    ws.on("open", () => {
+      this.state = "open";
+      this.connectedAt = Date.now();
+      this.onLog(`${this.feed.id} stream connected, subscribing to ${this.feed.pairs.length} pairs`);
+      for (const msg of this.feed.subscribe(this.feed.pairs)) ws.send(JSON.stringify(msg));
+    });
+    ws.on("message", (data) => {
+      this.touch();
+      this.lastMessageAt = Date.now();
+      let updates;
+      try {
+        updates = this.feed.parse(JSON.parse(data.toString()));
+      } catch (e: any) {
+        this.lastError = e.message;
+        return;
+      }
+      // Only a connection that actually delivers prices resets the backoff.
+      if (updates.length) this.attempts = 0;
+      for (const { pair, quote } of updates) this.table.set(this.feed.id, pair, quote);
+    });
+    ws.on("error", (e) => {
+      this.lastError = e.message;
+    });
+    ws.on("close", () => {
+      if (this.ws !== ws) return;
+      this.disconnect();
+      if (this.stopped) return;
+      const delay = Math.min(this.opts.reconnectMs * 2 ** this.attempts, this.opts.maxReconnectMs);
+      this.attempts++;
+      this.reconnects++;
+      this.onLog(`${this.feed.id} stream closed${this.lastError ? ` (${this.lastError})` : ""}, reconnecting in ${delay}ms`);
+      this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    });
+  }
+
+  private disconnect(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    const ws = this.ws;
+    this.ws = null;
+    this.state = "closed";
+    this.connectedAt = null;
+    this.table.clear(this.feed.id);
+    ws?.removeAllListeners("message");
+    if (ws && ws.readyState !== WebSocket.CLOSED) ws.terminate();
+  }
+
+  private touch(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.lastError = `no messages for ${this.opts.idleMs}ms`;
+      this.ws?.terminate();
+    }, this.opts.idleMs);
+  }
+}
+
+/**
+ * Wraps a REST adapter so requests read the stream's latest price when it is younger than
+ * `maxAgeMs`, and only fall back to polling the exchange while the stream has none.
+ * Order books are still fetched over REST.
+ */
+export function streamingSource(rest: PriceSource, stream: TickerStream, table: LatestPrices, maxAgeMs: number): PriceSource {
+  return {
+    ...rest,
+    fetch: async (pair, timeoutMs) => {
+      const latest = table.get(rest.id, pair, maxAgeMs);
+      return latest ? { streamed: { ...latest.quote, receivedAt: latest.receivedAt } } : { polled: await rest.fetch(pair, timeoutMs) };
+    },
+    parse: (raw: any, pair) => raw.streamed ?? rest.parse(raw.polled, pair),
+    streamStatus: () => stream.status(),
+  };
+}
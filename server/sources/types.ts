@@ -0,0 +1,66 @@
+import type { PriceType, StreamStatus } from "@shared/schema";
+
+export interface SourceQuote {
+  /** Last trade price. */
+  price: number;
+  bid?: number;
+  ask?: number;
+  /** Trailing 24h volume on this venue, in the base currency, when the venue reports it. */
+  volume?: number;
+  /** Exchange-reported time of the trade or ticker (epoch ms), when the venue reports it. */
+  exchangeTs?: number;
+  /** When the quote reached the relay, if before the fetch returned it (a streamed quote). */
+  receivedAt?: number;
+}
+
+/** Price levels as [price, size in base currency], best first. */
+export interface OrderBook {
+  bids: [number, number][];
+  asks: [number, number][];
+  exchangeTs?: number;
+}
+
+export interface PriceSource {
+  /** Stable identifier used in a request's `sources` list and in response labels. */
+  id: string;
+  /** Pairs this source can quote, e.g. "BTC-USD". */
+  pairs: string[];
+  /** Relative influence on weighted aggregation methods. */
+  weight: number;
+  /** Requests per minute background refreshes may spend on this source; unlimited when unset. */
+  rateLimitPerMin?: number;
+  /** Oldest exchange time accepted from this source; defaults to the registry-wide bound. */
+  maxStalenessMs?: number;
+  /** Price types the source can report; `last` only when unset. `depth_mid` needs `fetchBook`. */
+  priceTypes?: PriceType[];
+  /** Retrieves the raw ticker payload for a pair. */
+  fetch(pair: string, timeoutMs: number): Promise<unknown>;
+  /** Extracts the quote from a payload returned by `fetch`; throws if the price is unusable. */
+  parse(raw: unknown, pair: string): SourceQuote;
+  /** Retrieves the raw order book for a pair. */
+  fetchBook?(pair: string, timeoutMs: number): Promise<unknown>;
+  /** Extracts bid and ask levels from a payload returned by `fetchBook`. */
+  parseBook?(raw: unknown, pair: string): OrderBook;
+  /** State of the streaming feed behind the source, when it has one. */
+  streamStatus?(): StreamStatus;
+}
+
+/** One ticker update from a streaming feed. */
+export interface StreamUpdate {
+  pair: string;
+  quote: SourceQuote;
+}
+
+/** An exchange WebSocket ticker feed that keeps a source's latest prices current. */
+export interface StreamFeed {
+  /** Id of the source the feed backs. */
+  id: string;
+  url: string;
+  pairs: string[];
+  /** Messages to send once connected to subscribe to tickers for `pairs`. */
+  subscribe(pairs: string[]): unknown[];
+  /** Ticker updates in a message; none for acks and heartbeats. Throws on an exchange error. */
+  parse(msg: any): StreamUpdate[];
+}
+
+export type { SourceHealth, StreamStatus } from "@shared/schema";
@@ -1,7 +1,237 @@
-export interface IStorage {}
+import { and, asc, desc, eq, exists, gt, gte, inArray, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { nostrEvents, nostrEventTags, type NostrEvent, type NostrEventRow } from "@shared/schema";
+import { createDb, type Database } from "./db";
+import { EventIndex } from "./event-index";
+import { eventAddress, expirationOf } from "./event-kinds";
+import { compareEvents, filterLimit, isIndexedTag, mergeResults, tagFilters, type NostrFilter } from "./nostr-filter";
+
+const MAX_STORED_EVENTS = Number(process.env.MAX_STORED_EVENTS ?? 10_000);
+
+export interface IStorage {
+  /**
+   * Persists an event, applying NIP-01 replaceable/addressable semantics. Resolves false when
+   * the same event, or a newer version at the same address, is already stored.
+   */
+  saveEvent(evt: NostrEvent): Promise<boolean>;
+  getEvent(id: string): Promise<NostrEvent | undefined>;
+  queryEvents(filters: NostrFilter[]): Promise<NostrEvent[]>;
+  /** Counts distinct events matching any filter, ignoring `limit` and events expired at `now` (unix seconds). */
+  countEvents(filters: NostrFilter[], now: number): Promise<number>;
+  /** Removes the given events. Resolves the number actually removed. */
+  deleteEvents(ids: string[]): Promise<number>;
+  /** Removes events whose NIP-40 expiration is at or before `now` (unix seconds). */
+  deleteExpired(now: number): Promise<number>;
+}
 
 export class MemStorage implements IStorage {
-  constructor() {}
+  private index = new EventIndex();
+  private addresses = new Map<string, string>();
+  private expirations = new Map<string, number>();
+
+  constructor(private maxEvents = MAX_STORED_EVENTS) {}
+
+  async saveEvent(evt: NostrEvent): Promise<boolean> {
+    if (this.index.has(evt.id)) return false;
+
+    const address = eventAddress(evt);
+    if (address) {
+      const currentId = this.addresses.get(address);
+      const current = currentId ? this.index.get(currentId) : undefined;
+      if (current) {
+        if (compareEvents(current, evt) < 0) return false;
+        this.removeEvent(current.id);
+      }
+      this.addresses.set(address, evt.id);
+    }
+
+    this.index.add(evt);
+    const exp = expirationOf(evt);
+    if (exp !== null) this.expirations.set(evt.id, exp);
+    while (this.index.size > this.maxEvents) {
+      const oldest = this.index.oldest();
+      if (!oldest) break;
+      this.removeEvent(oldest.id);
+    }
+    return true;
+  }
+
+  private removeEvent(id: string): void {
+    const evt = this.index.remove(id);
+    if (!evt) return;
+    this.expirations.delete(id);
+    const address = eventAddress(evt);
+    if (address && this.addresses.get(address) === id) this.addresses.delete(address);
+  }
+
+  async getEvent(id: string): Promise<NostrEvent | undefined> {
+    return this.index.get(id);
+  }
+
+  async queryEvents(filters: NostrFilter[]): Promise<NostrEvent[]> {
+    return this.index.query(filters);
+  }
+
+  async countEvents(filters: NostrFilter[], now: number): Promise<number> {
+    return this.index.count(filters, now);
+  }
+
+  async deleteEvents(ids: string[]): Promise<number> {
+    let removed = 0;
+    for (const id of ids) {
+      if (!this.index.has(id)) continue;
+      this.removeEvent(id);
+      removed++;
+    }
+    return removed;
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    const expired: string[] = [];
+    this.expirations.forEach((exp, id) => {
+      if (exp <= now) expired.push(id);
+    });
+    return this.deleteEvents(expired);
+  }
+}
+
+function rowToEvent(row: NostrEventRow): NostrEvent {
+  return {
+    id: row.id,
+    pubkey: row.pubkey,
+    created_at: row.createdAt,
+    kind: row.kind,
+    tags: row.tags,
+    content: row.content,
+    sig: row.sig,
+  };
+}
+
+function filterToWhere(db: Database, f: NostrFilter): SQL | undefined {
+  const conds: (SQL | undefined)[] = [];
+  if (Array.isArray(f.ids)) conds.push(f.ids.length ? inArray(nostrEvents.id, f.ids) : sql`false`);
+  if (Array.isArray(f.kinds)) conds.push(f.kinds.length ? inArray(nostrEvents.kind, f.kinds) : sql`false`);
+  if (Array.isArray(f.authors)) conds.push(f.authors.length ? inArray(nostrEvents.pubkey, f.authors) : sql`false`);
+  if (f.since) conds.push(gte(nostrEvents.createdAt, f.since));
+  if (f.until) conds.push(lte(nostrEvents.createdAt, f.until));
+  for (const { name, values } of tagFilters(f)) {
+    if (!Array.isArray(values) || !values.length) {
+      conds.push(sql`false`);
+      continue;
+    }
+    const strValues = values.map(String);
+    if (isIndexedTag(name)) {
+      conds.push(
+        exists(
+          db
+            .select({ one: sql`1` })
+            .from(nostrEventTags)
+            .where(and(eq(nostrEventTags.eventId, nostrEvents.id), eq(nostrEventTags.name, name), inArray(nostrEventTags.value, strValues))),
+        ),
+      );
+    } else {
+      // Match by position like matchFilter: containment (@>) would ignore element order.
+      conds.push(
+        sql`exists (select 1 from jsonb_array_elements(${nostrEvents.tags}) as t(tag) where t.tag->>0 = ${name} and t.tag->>1 in (${sql.join(
+          strValues.map((v) => sql`${v}`),
+          sql`, `,
+        )}))`,
+      );
+    }
+  }
+  return and(...conds);
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async saveEvent(evt: NostrEvent): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const address = eventAddress(evt);
+      if (address) {
+        // Row locks can't cover an address with no row yet, so serialise saves per address instead.
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${address}))`);
+        const [current] = await tx.select().from(nostrEvents).where(eq(nostrEvents.address, address));
+        if (current) {
+          if (current.id === evt.id || compareEvents(rowToEvent(current), evt) < 0) return false;
+          await tx.delete(nostrEvents).where(eq(nostrEvents.id, current.id));
+        }
+      }
+
+      const inserted = await tx
+        .insert(nostrEvents)
+        .values({
+          id: evt.id,
+          pubkey: evt.pubkey,
+          createdAt: evt.created_at,
+          kind: evt.kind,
+          tags: evt.tags,
+          content: evt.content,
+          sig: evt.sig,
+          address,
+          expiresAt: expirationOf(evt),
+        })
+        .onConflictDoNothing()
+        .returning({ id: nostrEvents.id });
+      if (!inserted.length) return false;
+
+      const tagRows = evt.tags.filter((t) => isIndexedTag(t[0]) && t[1] !== undefined).map((t) => ({ eventId: evt.id, name: t[0], value: t[1] }));
+      if (tagRows.length) await tx.insert(nostrEventTags).values(tagRows).onConflictDoNothing();
+      return true;
+    });
+  }
+
+  async getEvent(id: string): Promise<NostrEvent | undefined> {
+    const [row] = await this.db.select().from(nostrEvents).where(eq(nostrEvents.id, id));
+    return row ? rowToEvent(row) : undefined;
+  }
+
+  async queryEvents(filters: NostrFilter[]): Promise<NostrEvent[]> {
+    const sets = await Promise.all(
+      filters.map(async (f) => {
+        const limit = filterLimit(f);
+        if (limit === 0) return [];
+        const rows = await this.db
+          .select()
+          .from(nostrEvents)
+          .where(filterToWhere(this.db, f))
+          .orderBy(desc(nostrEvents.createdAt), asc(nostrEvents.id))
+          .limit(limit);
+        return rows.map(rowToEvent);
+      }),
+    );
+    return mergeResults(sets);
+  }
+
+  async countEvents(filters: NostrFilter[], now: number): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(nostrEvents)
+      .where(
+        and(
+          or(...filters.map((f) => filterToWhere(this.db, f) ?? sql`true`)),
+          // REQ hides expired events before the sweeper removes them; so does COUNT.
+          or(isNull(nostrEvents.expiresAt), gt(nostrEvents.expiresAt, now)),
+        ),
+      );
+    return row?.count ?? 0;
+  }
+
+  async deleteEvents(ids: string[]): Promise<number> {
+    if (!ids.length) return 0;
+    const deleted = await this.db.delete(nostrEvents).where(inArray(nostrEvents.id, ids)).returning({ id: nostrEvents.id });
+    return deleted.length;
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    const deleted = await this.db.delete(nostrEvents).where(lte(nostrEvents.expiresAt, now)).returning({ id: nostrEvents.id });
+    return deleted.length;
+  }
+}
+
+function createStorage(): IStorage {
+  const url = process.env.DATABASE_URL;
+  if (process.env.EVENT_STORE === "memory" || !url) return new MemStorage();
+  return new DatabaseStorage(createDb(url));
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
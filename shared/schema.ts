@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { pgTable, text, integer, jsonb, timestamp, index, primaryKey, uniqueIndex } from "drizzle-orm/pg-core";
 
 export const nostrEventSchema = z.object({
   id: z.string(),
@@ -12,11 +13,72 @@ export const nostrEventSchema = z.object({
 
 export type NostrEvent = z.infer<typeof nostrEventSchema>;
 
+export const nostrEvents = pgTable(
+  "nostr_events",
+  {
+    id: text("id").primaryKey(),
+    pubkey: text("pubkey").notNull(),
+    createdAt: integer("created_at").notNull(),
+    kind: integer("kind").notNull(),
+    tags: jsonb("tags").$type<string[][]>().notNull(),
+    content: text("content").notNull(),
+    sig: text("sig").notNull(),
+    address: text("address"),
+    expiresAt: integer("expires_at"),
+    receivedAt: timestamp("received_at").defaultNow().notNull(),
+  },
+  (t) => [
+    index("nostr_events_kind_created_at_idx").on(t.kind, t.createdAt),
+    index("nostr_events_pubkey_created_at_idx").on(t.pubkey, t.createdAt),
+    index("nostr_events_created_at_idx").on(t.createdAt),
+    // One version per address; regular events have a null address and never collide.
+    uniqueIndex("nostr_events_address_idx").on(t.address),
+    index("nostr_events_expires_at_idx").on(t.expiresAt),
+  ],
+);
+
+export type NostrEventRow = typeof nostrEvents.$inferSelect;
+
+/** Single-letter tag values, one row per (event, tag, value), used to answer `#x` filters. */
+export const nostrEventTags = pgTable(
+  "nostr_event_tags",
+  {
+    eventId: text("event_id")
+      .notNull()
+      .references(() => nostrEvents.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    value: text("value").notNull(),
+  },
+  (t) => [primaryKey({ columns: [t.eventId, t.name, t.value] }), index("nostr_event_tags_name_value_idx").on(t.name, t.value)],
+);
+
+/**
+ * Which price a source sample reports: the last trade, the best bid or ask, their midpoint,
+ * or `depth_mid`, the midpoint of the average fill prices for buying and selling `notional`
+ * (quote currency) against the order book.
+ */
+export const priceTypeSchema = z.enum(["last", "mid", "bid", "ask", "depth_mid"]);
+
+export type PriceType = z.infer<typeof priceTypeSchema>;
+
 export const priceRequestSchema = z.object({
   pair: z.string().default("BTC-USD"),
-  method: z.enum(["trimmed_mean", "median", "mean"]).default("trimmed_mean"),
+  method: z.enum(["trimmed_mean", "median", "mean", "vwap", "volume_weighted_median"]).default("trimmed_mean"),
   sources: z.array(z.string()).optional(),
+  priceType: priceTypeSchema.default("last"),
+  /** Order size in the quote currency for `depth_mid`. */
+  notional: z.number().positive().optional(),
   maxAgeMs: z.number().default(20000),
+  /** Reply within this many ms, with the sources that answered by then (still subject to quorum). */
+  deadlineMs: z.number().positive().optional(),
+  /** Refuse (38002) instead of answering when sources disagree by more than these percentages of the value. */
+  maxDispersion: z
+    .object({
+      spreadPct: z.number().positive().optional(),
+      stddevPct: z.number().positive().optional(),
+      confPct: z.number().positive().optional(),
+    })
+    .optional(),
 });
 
 export type PriceRequest = z.infer<typeof priceRequestSchema>;
@@ -24,34 +86,126 @@ export type PriceRequest = z.infer<typeof priceRequestSchema>;
 export const priceSampleSchema = z.object({
   source: z.string(),
   value: z.number(),
+  /** Local receive time (epoch ms). */
   ts: z.number(),
+  /** Exchange-reported trade/ticker time (epoch ms), when the venue provides one. */
+  exchangeTs: z.number().optional(),
+  volume: z.number().optional(),
+  /** How long the fetch that produced this sample took. */
+  latencyMs: z.number().optional(),
 });
 
 export type PriceSample = z.infer<typeof priceSampleSchema>;
 
+export const rejectedSampleSchema = priceSampleSchema.extend({
+  reason: z.string(),
+});
+
+export type RejectedSample = z.infer<typeof rejectedSampleSchema>;
+
+/**
+ * How far the samples behind a value disagree, in the pair's quote currency. `conf` is the
+ * half-width of the band around the value that covers the middle 50% of samples (Pyth-style).
+ */
+export const dispersionSchema = z.object({
+  min: z.number(),
+  max: z.number(),
+  spread: z.number(),
+  stddev: z.number(),
+  conf: z.number(),
+});
+
+export type Dispersion = z.infer<typeof dispersionSchema>;
+
 export const priceResponseSchema = z.object({
   pair: z.string(),
   ts: z.number(),
   value: z.number(),
   method: z.string(),
+  priceType: priceTypeSchema.optional(),
+  notional: z.number().optional(),
   sources_used: z.array(z.string()),
   samples: z.array(priceSampleSchema),
+  rejected: z.array(rejectedSampleSchema).optional(),
+  dispersion: dispersionSchema.optional(),
   cache: z.object({
     hit: z.boolean(),
     ageMs: z.number(),
+    fetched: z.array(z.string()).optional(),
   }),
+  /** Sources still outstanding when the reply was made; they answered too late to count. */
+  pending: z.array(z.string()).optional(),
+  derivation: z
+    .object({
+      path: z.array(z.string()),
+      legs: z.array(
+        z.object({
+          pair: z.string(),
+          inverted: z.boolean(),
+          value: z.number(),
+          method: z.string(),
+          sources_used: z.array(z.string()),
+          samples: z.array(priceSampleSchema),
+          rejected: z.array(rejectedSampleSchema).optional(),
+          dispersion: dispersionSchema.optional(),
+          /** depth_mid size filled on this leg's books, in the quote currency of the market quoted. */
+          notional: z.number().optional(),
+        }),
+      ),
+    })
+    .optional(),
 });
 
 export type PriceResponse = z.infer<typeof priceResponseSchema>;
 
+/** Connection state of a source's streaming ticker feed. */
+export const streamStatusSchema = z.object({
+  state: z.enum(["connecting", "open", "closed"]),
+  connectedAt: z.number().nullable(),
+  lastMessageAt: z.number().nullable(),
+  reconnects: z.number(),
+  lastError: z.string().nullable(),
+  /** Pairs with a streamed price in the latest-price table. */
+  livePairs: z.number(),
+});
+
+export type StreamStatus = z.infer<typeof streamStatusSchema>;
+
+export const sourceHealthSchema = z.object({
+  enabled: z.boolean(),
+  successes: z.number(),
+  failures: z.number(),
+  lastSuccessAt: z.number().nullable(),
+  lastFailureAt: z.number().nullable(),
+  lastError: z.string().nullable(),
+  consecutiveFailures: z.number(),
+  /** Share of successful fetches over the recent window; null before the first fetch. */
+  successRate: z.number().nullable(),
+  /** Percentiles of recent successful fetch latencies; null before the first success. */
+  latencyMs: z.object({ p50: z.number(), p90: z.number(), p99: z.number() }).nullable(),
+  /** closed: fetched normally; open: skipped until `nextProbeAt`; half_open: one probe in flight. */
+  circuit: z.enum(["closed", "open", "half_open"]),
+  nextProbeAt: z.number().nullable(),
+  /** Present when the source is fed by a streaming connection. */
+  stream: streamStatusSchema.optional(),
+});
+
+export type SourceHealth = z.infer<typeof sourceHealthSchema>;
+
 export const relayInfoSchema = z.object({
   name: z.string(),
   description: z.string(),
   pubkey: z.string(),
+  previous_pubkeys: z.array(z.string()).optional(),
   contact: z.string(),
   supported_nips: z.array(z.number()),
   software: z.string(),
   version: z.string(),
+  price_sources: z.array(z.string()).optional(),
+  price_source_mode: z.string().optional(),
+  source_health: z.record(sourceHealthSchema).optional(),
+  supported_pairs: z.array(z.string()).optional(),
+  synthetic_pairs: z.array(z.string()).optional(),
 });
 
 export type RelayInfo = z.infer<typeof relayInfoSchema>;
@@ -59,6 +213,11 @@ export type RelayInfo = z.infer<typeof relayInfoSchema>;
 export const KIND_PRICE_REQ = 38000;
 export const KIND_PRICE_RES = 38001;
 export const KIND_PRICE_ERR = 38002;
+export const KIND_KEY_ROTATION = 38003;
+
+/** NIP-32 label namespaces carried by price requests and replies. */
+export const LABEL_PAIR = "pair";
+export const LABEL_SOURCE = "source";
 
 export interface LocalAccount {
   npub: string;